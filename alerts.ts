@@ -0,0 +1,225 @@
+import * as Clients from "./clients.js";
+import { matches as matchesRequest } from "./engine.js";
+import * as Listings from "./listings.js";
+import * as Messages from "./messages.js";
+import { NormalizedListing, normalizeListing } from "./normalize.js";
+import * as Searches from "./searches.js";
+
+export type Frequency = NonNullable<Searches.CreateRequest["notificationFrequency"]>;
+export type Channel = Messages.Channel;
+export type MatchKind = "new" | "priceChange" | "sold";
+
+export interface SavedSearch extends Searches.CreateRequest {
+   searchId?: number;
+}
+
+export interface Match {
+   clientId: number;
+   /** every saved search of the client that matched, when they have an id */
+   searchIds: number[];
+   kind: MatchKind;
+   mlsNumber: string;
+   listing: Listings.Listing;
+   /** listPrice before a priceChange */
+   previousPrice?: number | null;
+   /** ISO timestamp */
+   matchedOn: string;
+}
+
+export interface Digest {
+   clientId: number;
+   frequency: Frequency;
+   /** empty when the client cannot be reached (unsubscribed or every channel off), the digest is undeliverable */
+   channels: Channel[];
+   matches: Match[];
+   /** ISO timestamp of the first match of the digest */
+   openedOn: string;
+   sentOn: string;
+}
+
+interface Queue {
+   clientId: number;
+   frequency: Frequency;
+   openedOn: string;
+   matches: Match[];
+}
+
+export interface SchedulerState {
+   version: 1;
+   queues: Queue[];
+}
+
+export interface SchedulerDependencies {
+   now?: () => Date;
+}
+
+export interface Scheduler {
+   readonly state: Readonly<SchedulerState>;
+   /** matches a new or changed listing against the saved searches and queues the results */
+   offer(searches: SavedSearch[], listing: Listings.Listing, previous?: Listings.Listing | null): Match[];
+   /** when the next digest is due, `null` when nothing is queued */
+   nextDue(): Date | null;
+   /**
+    * Removes and returns the digests that are due, queues of unknown clients are kept.
+    * Undeliverable digests are returned too, with no channels, so their matches are not lost silently.
+    */
+   flush(clients: Clients.Client[]): Digest[];
+   serialize(): string;
+}
+
+export class SchedulerError extends Error {
+   constructor(message: string) {
+      super(message);
+      this.name = "SchedulerError";
+   }
+}
+
+/** used when a saved search has no notificationFrequency */
+export const DEFAULT_FREQUENCY: Frequency = "instant";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const isSold = (listing: NormalizedListing) =>
+   listing.soldDate !== null || listing.lastStatus === "Sld" || listing.lastStatus === "Lsd";
+
+/**
+ * Whether the listing satisfies the criteria of the saved search, whatever its status. Criteria a listing search
+ * cannot express are checked with Searches.checkUnrepresentable, nothing matches when one cannot be checked at all.
+ */
+export const matches = (search: SavedSearch, listing: Listings.Listing): boolean => {
+   const { result, unrepresentable } = Searches.toSearchRequest(search);
+   const rest = Searches.checkUnrepresentable(unrepresentable);
+   return !!rest && rest(listing) && matchesRequest(result, { listing, normalized: normalizeListing(listing).listing });
+};
+
+/**
+ * What to tell the owner of the saved search about this version of the listing, if anything.
+ * A listing that starts matching after a change (a price drop into range) counts as new.
+ */
+export const classify = (
+   search: SavedSearch,
+   listing: Listings.Listing,
+   previous?: Listings.Listing | null
+): MatchKind | null => {
+   if (search.status === false || !matches(search, listing)) return null;
+   const current = normalizeListing(listing).listing;
+   const before = previous ? normalizeListing(previous).listing : null;
+   if (isSold(current)) return search.soldNotifications && !(before && isSold(before)) ? "sold" : null;
+   if (current.status !== "A") return null;
+   if (!previous || !matches(search, previous)) return "new";
+   if (search.priceChangeNotifications && before!.listPrice !== current.listPrice) return "priceChange";
+   return null;
+};
+
+export const dueOn = (frequency: Frequency, openedOn: Date): Date => {
+   switch (frequency) {
+      case "instant":
+         return openedOn;
+      case "daily":
+         return new Date(openedOn.getTime() + DAY);
+      case "weekly":
+         return new Date(openedOn.getTime() + 7 * DAY);
+      case "monthly": {
+         const due = new Date(openedOn);
+         const day = due.getUTCDate();
+         due.setUTCDate(1);
+         due.setUTCMonth(due.getUTCMonth() + 1);
+         // Jan 31 + 1 month is the last day of February
+         const lastDay = new Date(Date.UTC(due.getUTCFullYear(), due.getUTCMonth() + 1, 0)).getUTCDate();
+         due.setUTCDate(Math.min(day, lastDay));
+         return due;
+      }
+   }
+};
+
+export const channels = ({ preferences }: Pick<Clients.Client, "preferences">): Channel[] =>
+   preferences.unsubscribe ? [] : (["email", "sms", "whatsapp"] as const).filter((channel) => preferences[channel]);
+
+/**
+ * Saved-search alerts: decides which new or changed listings a saved search is interested in,
+ * then batches them into one digest per client and notificationFrequency.
+ * Client.preferences is read when a digest is due, so an unsubscribe takes effect on the next digest.
+ * The scheduler state is plain JSON, the clock is injected.
+ */
+export const createScheduler = (
+   dependencies: SchedulerDependencies = {},
+   serialized?: string | SchedulerState
+): Scheduler => {
+   const now = () => (dependencies.now ?? (() => new Date()))();
+   const state: SchedulerState =
+      serialized === undefined
+         ? { version: 1, queues: [] }
+         : typeof serialized === "string"
+         ? JSON.parse(serialized)
+         : JSON.parse(JSON.stringify(serialized));
+   if (state?.version !== 1) throw new SchedulerError(`unsupported scheduler version ${state?.version}`);
+
+   const queueOf = (clientId: number, frequency: Frequency, openedOn: string) => {
+      let queue = state.queues.find((queue) => queue.clientId === clientId && queue.frequency === frequency);
+      if (!queue) {
+         queue = { clientId, frequency, openedOn, matches: [] };
+         state.queues.push(queue);
+      }
+      return queue;
+   };
+
+   const offer = (searches: SavedSearch[], listing: Listings.Listing, previous?: Listings.Listing | null) => {
+      if (!listing.mlsNumber) return [];
+      const matchedOn = now().toISOString();
+      const result: Match[] = [];
+      for (const search of searches) {
+         const kind = classify(search, listing, previous);
+         if (!kind) continue;
+         const queue = queueOf(search.clientId, search.notificationFrequency ?? DEFAULT_FREQUENCY, matchedOn);
+         // one entry per listing and kind, the latest version of the listing wins
+         let match = queue.matches.find((match) => match.mlsNumber === listing.mlsNumber && match.kind === kind);
+         if (match) {
+            match.listing = listing;
+            match.matchedOn = matchedOn;
+         } else {
+            match = { clientId: search.clientId, searchIds: [], kind, mlsNumber: listing.mlsNumber, listing, matchedOn };
+            queue.matches.push(match);
+         }
+         if (kind === "priceChange") match.previousPrice = normalizeListing(previous!).listing.listPrice;
+         if (search.searchId !== undefined && !match.searchIds.includes(search.searchId)) {
+            match.searchIds.push(search.searchId);
+         }
+         if (!result.includes(match)) result.push(match);
+      }
+      return result;
+   };
+
+   const due = (queue: Queue) => dueOn(queue.frequency, new Date(queue.openedOn));
+
+   return {
+      get state() {
+         return state;
+      },
+      offer,
+      nextDue: () =>
+         state.queues.reduce<Date | null>((next, queue) => {
+            const date = due(queue);
+            return !next || date < next ? date : next;
+         }, null),
+      flush: (clients) => {
+         const sentOn = now();
+         const byId = new Map(clients.map((client) => [client.clientId, client]));
+         const digests: Digest[] = [];
+         state.queues = state.queues.filter((queue) => {
+            const client = byId.get(queue.clientId);
+            if (!client || due(queue) > sentOn) return true;
+            digests.push({
+               clientId: queue.clientId,
+               frequency: queue.frequency,
+               channels: channels(client),
+               matches: queue.matches,
+               openedOn: queue.openedOn,
+               sentOn: sentOn.toISOString(),
+            });
+            return false;
+         });
+         return digests;
+      },
+      serialize: () => JSON.stringify(state),
+   };
+};
@@ -0,0 +1,303 @@
+import { ApiRequest, ApiResponse } from "./index.js";
+import * as Clients from "./clients.js";
+import * as Estimate from "./estimate.js";
+import * as Favorites from "./favorites.js";
+import { ProjectedListing, ProjectedSearchResponse, Selection } from "./fields.js";
+import * as Listings from "./listings.js";
+import * as Messages from "./messages.js";
+import { serializeSearchRequest } from "./query.js";
+import * as Searches from "./searches.js";
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+/**
+ * Minimal subset of the WHATWG fetch signature the client relies on.
+ * Anything shaped like this (undici, node-fetch, a test double) can be injected.
+ */
+export type FetchLike = (
+   url: string,
+   init: {
+      method: HttpMethod;
+      headers: Record<string, string>;
+      body?: string;
+   }
+) => Promise<{
+   ok: boolean;
+   status: number;
+   statusText: string;
+   text(): Promise<string>;
+}>;
+
+export interface ClientOptions {
+   /** e.g. `https://api.repliers.io` or the URL of a local mock server */
+   baseUrl: string;
+   apiKey: string;
+   /** @defaultValue `globalThis.fetch` */
+   fetch?: FetchLike;
+   /** extra headers sent with every request */
+   headers?: Record<string, string>;
+}
+
+export class ApiError extends Error {
+   constructor(
+      public readonly status: number,
+      public readonly statusText: string,
+      public readonly method: HttpMethod,
+      public readonly url: string,
+      public readonly body: unknown
+   ) {
+      super(`${method} ${url} failed with ${status} ${statusText}`);
+      this.name = "ApiError";
+   }
+}
+
+export interface RequestOptions {
+   method: HttpMethod;
+   path: string;
+   /** params, or a query string that is already encoded */
+   query?: ApiRequest | string;
+   body?: unknown;
+}
+
+export type Send = <R extends ApiResponse>(options: RequestOptions) => Promise<R>;
+
+/**
+ * Encodes request params the way the API expects them:
+ * arrays are repeated (`city=Toronto&city=Markham`), nested values are sent as JSON
+ * and `undefined`/`null` are dropped.
+ */
+export const encodeQuery = (query: ApiRequest = {}): string => {
+   const params = new URLSearchParams();
+   for (const [key, value] of Object.entries(query)) {
+      if (value === undefined || value === null) continue;
+      if (Array.isArray(value) && key !== "map") {
+         for (const item of value) params.append(key, String(item));
+      } else if (typeof value === "object") {
+         params.append(key, JSON.stringify(value));
+      } else {
+         params.append(key, String(value));
+      }
+   }
+   const encoded = params.toString();
+   return encoded ? `?${encoded}` : "";
+};
+
+const omit = <T extends ApiRequest, K extends keyof T>(request: T, ...keys: K[]): Omit<T, K> => {
+   const rest = { ...request };
+   for (const key of keys) delete rest[key];
+   return rest;
+};
+
+/** builds the request inside the promise, so a missing path param rejects instead of throwing */
+const later = <T>(build: () => Promise<T>): Promise<T> => Promise.resolve().then(build);
+
+const segment = (value: unknown, name: string): string => {
+   if (value === undefined || value === null || value === "") {
+      throw new TypeError(`${name} is required`);
+   }
+   return encodeURIComponent(String(value));
+};
+
+export const createSend = (options: ClientOptions): Send => {
+   const fetchImpl = options.fetch ?? (globalThis as { fetch?: FetchLike }).fetch;
+   if (!fetchImpl) {
+      throw new TypeError("No fetch implementation available, pass one via options.fetch");
+   }
+   const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+   return async <R extends ApiResponse>({ method, path, query, body }: RequestOptions) => {
+      const search = typeof query === "string" ? (query ? `?${query}` : "") : encodeQuery(query);
+      const url = `${baseUrl}${path}${search}`;
+      const headers: Record<string, string> = {
+         Accept: "application/json",
+         "REPLIERS-API-KEY": options.apiKey,
+         ...options.headers,
+      };
+      if (body !== undefined) headers["Content-Type"] = "application/json";
+
+      const response = await fetchImpl(url, {
+         method,
+         headers,
+         body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      let parsed: unknown = text;
+      try {
+         parsed = text ? JSON.parse(text) : {};
+      } catch {
+         // keep the raw text, it is surfaced through ApiError below
+      }
+      if (!response.ok) {
+         throw new ApiError(response.status, response.statusText, method, url, parsed);
+      }
+      return parsed as R;
+   };
+};
+
+/** responses typed after the paths of a Fields.select selection, when the request has one */
+export type SearchResult<R extends Listings.SearchRequest> = R extends { fields: Selection<infer Path> }
+   ? ApiResponse & ProjectedSearchResponse<Path>
+   : Listings.SearchResponse;
+export type ListingResult<R extends Listings.ListingRequest> = R extends { fields: Selection<infer Path> }
+   ? ApiResponse & ProjectedListing<Path>
+   : Listings.ListingResponse;
+
+export const listings = (send: Send) => ({
+   search: <R extends Listings.SearchRequest>(request: R) => {
+      const { query, body } = serializeSearchRequest(request);
+      return (
+         body
+            ? send<Listings.SearchResponse>({ method: "POST", path: "/listings", query, body })
+            : send<Listings.SearchResponse>({ method: "GET", path: "/listings", query })
+      ) as Promise<SearchResult<R>>;
+   },
+   get: <R extends Listings.ListingRequest>(request: R) =>
+      later(() =>
+         send<Listings.ListingResponse>({
+            method: "GET",
+            path: `/listings/${segment(request.mlsNumber, "mlsNumber")}`,
+            query: omit(request, "mlsNumber"),
+         })
+      ) as Promise<ListingResult<R>>,
+   similar: (request: Listings.SimilarRequest) =>
+      later(() =>
+         send<Listings.SimilarResponse>({
+            method: "GET",
+            path: `/listings/${segment(request.propertyId, "propertyId")}/similar`,
+            query: omit(request, "propertyId"),
+         })
+      ),
+   locations: (request: Listings.LocationsRequest) =>
+      send<Listings.LocationsResponse>({ method: "GET", path: "/locations", query: request }),
+   nlp: (request: Listings.NlpRequest) =>
+      send<Listings.NlpResponse>({ method: "POST", path: "/nlp", body: request }),
+});
+
+const clientIdOf = (request: { clientId: number } | number) =>
+   typeof request === "number" ? request : request?.clientId;
+
+export const clients = (send: Send) => ({
+   create: (request: Clients.CreateRequest) =>
+      send<Clients.CreateResponse>({ method: "POST", path: "/clients", body: request }).then(Clients.normalizeClient),
+   update: (request: Clients.UpdateRequest) =>
+      later(() =>
+         send<Clients.UpdateResponse>({
+            method: "PATCH",
+            path: `/clients/${segment(request.clientId, "clientId")}`,
+            body: omit(request, "clientId"),
+         }).then(Clients.normalizeClient)
+      ),
+   /** a bare clientId is still accepted, as before the request objects */
+   delete: (request: Clients.DeleteRequest | number) =>
+      later(() =>
+         send<Clients.DeleteResponse>({
+            method: "DELETE",
+            path: `/clients/${segment(clientIdOf(request), "clientId")}`,
+         })
+      ),
+   /** a bare clientId is still accepted, as before the request objects */
+   get: (request: Clients.GetRequest | number) =>
+      later(() =>
+         send<Clients.GetResponse>({
+            method: "GET",
+            path: `/clients/${segment(clientIdOf(request), "clientId")}`,
+         }).then(Clients.normalizeClient)
+      ),
+   filter: (request: Clients.FilterRequest) =>
+      send<Clients.FilterResponse>({
+         method: "GET",
+         path: "/clients",
+         // tags are one comma-separated param, not a repeated one
+         query: request.tags ? { ...request, tags: request.tags.join(",") } : request,
+      }).then((response) => ({ ...response, clients: (response.clients ?? []).map(Clients.normalizeClient) })),
+   getTags: () =>
+      send<Clients.GetTagsResponse>({ method: "GET", path: "/clients/tags" }),
+   renameTag: (request: Clients.RenameTagRequest) =>
+      send<Clients.RenameTagResponse>({ method: "PATCH", path: "/clients/tags", body: request }),
+});
+
+export const searches = (send: Send) => ({
+   create: (request: Searches.CreateRequest) =>
+      send<Searches.CreateResponse>({ method: "POST", path: "/searches", body: request }),
+   update: (request: Searches.UpdateRequest) =>
+      later(() =>
+         send<Searches.UpdateResponse>({
+            method: "PATCH",
+            path: `/searches/${segment(request.searchId, "searchId")}`,
+            body: omit(request, "searchId"),
+         })
+      ),
+   filter: (request: Searches.FilterRequest) =>
+      send<Searches.FilterResponse>({ method: "GET", path: "/searches", query: request }),
+   delete: (request: Searches.DeleteRequest) =>
+      later(() =>
+         send<Searches.DeleteResponse>({
+            method: "DELETE",
+            path: `/searches/${segment(request.searchId, "searchId")}`,
+         })
+      ),
+   get: (request: Searches.GetRequest) =>
+      later(() =>
+         send<Searches.GetResponse>({
+            method: "GET",
+            path: `/searches/${segment(request.searchId, "searchId")}`,
+         })
+      ),
+});
+
+export const estimates = (send: Send) => ({
+   add: (request: Estimate.AddRequest) =>
+      send<Estimate.AddResponse>({ method: "POST", path: "/estimates", body: request }),
+   get: (request: Estimate.GetRequest) =>
+      send<Estimate.GetResponse>({ method: "GET", path: "/estimates", query: request }),
+   delete: (request: Estimate.DeleteRequest) =>
+      later(() =>
+         send<Estimate.DeleteResponse>({
+            method: "DELETE",
+            path: `/estimates/${segment(request.estimateId, "estimateId")}`,
+         })
+      ),
+   patch: (request: Estimate.PatchRequest) =>
+      later(() =>
+         send<Estimate.PatchResponse>({
+            method: "PATCH",
+            path: `/estimates/${segment(request.estimateId, "estimateId")}`,
+            body: omit(request, "estimateId"),
+         })
+      ),
+});
+
+export const favorites = (send: Send) => ({
+   add: (request: Favorites.AddRequest) =>
+      send<Favorites.AddResponse>({ method: "POST", path: "/favorites", body: request }),
+   delete: (request: Favorites.DeleteRequest) =>
+      later(() =>
+         send<Favorites.DeleteResponse>({
+            method: "DELETE",
+            path: `/favorites/${segment(request.favoriteId, "favoriteId")}`,
+         })
+      ),
+   get: (request: Favorites.GetRequest) =>
+      send<Favorites.GetResponse>({ method: "GET", path: "/favorites", query: request }),
+});
+
+export const messages = (send: Send) => ({
+   send: (request: Messages.SendRequest) =>
+      send<Messages.SendResponse>({ method: "POST", path: "/messages", body: request }),
+   history: (request: Messages.HistoryRequest) =>
+      send<Messages.HistoryResponse>({ method: "GET", path: "/messages", query: request }),
+});
+
+export const createClient = (options: ClientOptions) => {
+   const send = createSend(options);
+   return {
+      listings: listings(send),
+      clients: clients(send),
+      searches: searches(send),
+      estimates: estimates(send),
+      favorites: favorites(send),
+      messages: messages(send),
+   };
+};
+
+export type Client = ReturnType<typeof createClient>;
@@ -0,0 +1,186 @@
+import * as Listings from "./listings.js";
+import * as Messages from "./messages.js";
+import { NormalizedListing, NormalizedOpenHouse, normalizeListing } from "./normalize.js";
+import { escapeHtml } from "./report.js";
+
+/** an open house with a start time, the only ones shown */
+export type UpcomingOpenHouse = NormalizedOpenHouse & { startTime: Date };
+
+export interface CardFormat {
+   price(value: number): string;
+   openHouse(openHouse: UpcomingOpenHouse): string;
+}
+
+export interface CardOptions {
+   /** prefix of the relative paths of Listing.images @defaultValue `"https://cdn.repliers.io"` */
+   imageBaseUrl?: string;
+   /** link of the card, no link when missing */
+   listingUrl?: (listing: Listings.Listing) => string;
+   /** @defaultValue `"en-CA"` */
+   locale?: string;
+   /** @defaultValue `"CAD"` */
+   currency?: string;
+   /** used when an open house has no TZ @defaultValue `"America/Toronto"` */
+   timeZone?: string;
+   /** upcoming open houses shown @defaultValue `2` */
+   openHouses?: number;
+   /** open houses that ended before this are skipped */
+   now?: Date;
+   /** replaces the Intl formatting of `locale`, `currency` and `timeZone` */
+   format?: Partial<CardFormat>;
+}
+
+export interface Card {
+   mlsNumber: string;
+   html: string;
+   text: string;
+}
+
+/** finds a listing by mlsNumber, `undefined` or `null` when it is unknown */
+export type Resolve = (
+   mlsNumber: string
+) => Listings.Listing | undefined | null | Promise<Listings.Listing | undefined | null>;
+
+export interface RenderedListings {
+   /** in the order of content.listings, without duplicates */
+   cards: Card[];
+   /** MLS numbers that did not resolve */
+   missing: string[];
+   html: string;
+   text: string;
+}
+
+const DEFAULT_IMAGE_BASE_URL = "https://cdn.repliers.io";
+
+/** resolves from a local dump, e.g. a fixture */
+export const resolveFrom = (listings: readonly Listings.Listing[]): Resolve => {
+   const byNumber = new Map(listings.filter((listing) => listing.mlsNumber).map((listing) => [listing.mlsNumber!, listing]));
+   return (mlsNumber) => byNumber.get(mlsNumber);
+};
+
+export const imageUrl = (path: string, baseUrl = DEFAULT_IMAGE_BASE_URL): string =>
+   /^https?:\/\//.test(path) ? path : `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+
+/** the street address, or only the area when the listing does not allow it to be shown */
+export const displayAddress = (listing: Listings.Listing): string => {
+   const address = listing.address ?? {};
+   const area = [address.neighborhood, address.city].filter(Boolean).join(", ");
+   if (listing.permissions?.displayAddressOnInternet === "N") return area;
+   const street = [address.streetNumber, address.streetName, address.streetSuffix, address.streetDirection]
+      .filter(Boolean)
+      .join(" ");
+   const unit = address.unitNumber ? `${address.unitNumber} - ` : "";
+   return [street && unit + street, address.city].filter(Boolean).join(", ");
+};
+
+const rooms = ({ details }: NormalizedListing) => {
+   const count = (value: number | null, plus: number | null) =>
+      value === null ? null : plus ? `${value}+${plus}` : String(value);
+   const beds = count(details.numBedrooms, details.numBedroomsPlus);
+   const baths = count(details.numBathrooms, details.numBathroomsPlus);
+   return [beds && `${beds} bd`, baths && `${baths} ba`].filter(Boolean).join(" | ");
+};
+
+const formatters = ({ locale = "en-CA", currency = "CAD", timeZone = "America/Toronto", format = {} }: CardOptions) => {
+   const money = new Intl.NumberFormat(locale, { style: "currency", currency, maximumFractionDigits: 0 });
+   const day = (zone: string) =>
+      new Intl.DateTimeFormat(locale, { weekday: "short", month: "short", day: "numeric", timeZone: zone });
+   const time = (zone: string) => new Intl.DateTimeFormat(locale, { hour: "numeric", minute: "2-digit", timeZone: zone });
+   const price = format.price ?? ((value: number) => money.format(value));
+   return {
+      price: (value: number | null) => (value === null ? "" : price(value)),
+      openHouse:
+         format.openHouse ??
+         (({ startTime, endTime, TZ }: UpcomingOpenHouse) => {
+            const zone = TZ ?? timeZone;
+            return (
+               `${day(zone).format(startTime)} ${time(zone).format(startTime)}` +
+               (endTime ? `-${time(zone).format(endTime)}` : "")
+            );
+         }),
+   };
+};
+
+const upcoming = (listing: NormalizedListing, { openHouses = 2, now }: CardOptions) =>
+   listing.openHouse
+      .filter((openHouse): openHouse is UpcomingOpenHouse => openHouse.startTime !== null)
+      .filter(({ startTime, endTime }) => !now || (endTime ?? startTime) >= now)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+      .slice(0, Math.max(0, openHouses));
+
+/**
+ * A listing card for the MLS numbers of Messages content.listings: an email-safe HTML card
+ * (tables and inline styles only) and a short text for SMS and WhatsApp.
+ * When permissions.displayAddressOnInternet is `N` only the neighborhood and city are shown.
+ *
+ * Rendering is deterministic for a given listing and options, `now` included, so cards can be
+ * compared against stored snapshots. Prices and open houses go through Intl, whose output changes
+ * between ICU versions: pass `format` for snapshots that do not depend on the runtime, e.g. for the
+ * listings of toronto_listings.json:
+ * `renderCard(listing, { now, format: { price: (value) => "$" + value, openHouse: ({ startTime }) => startTime.toISOString() } })`.
+ */
+export const renderCard = (listing: Listings.Listing, options: CardOptions = {}): Card => {
+   const normalized = normalizeListing(listing).listing;
+   const format = formatters(options);
+   const sold = normalized.soldPrice !== null && normalized.lastStatus === "Sld";
+   const price = format.price(sold ? normalized.soldPrice : normalized.listPrice);
+   const address = displayAddress(listing);
+   const summary = rooms(normalized);
+   const openHouses = upcoming(normalized, options).map(format.openHouse);
+   const url = options.listingUrl?.(listing);
+   const [cover] = listing.images ?? [];
+
+   const text = [
+      [sold ? `Sold ${price}` : price, summary].filter(Boolean).join(" | "),
+      address,
+      ...openHouses.map((openHouse) => `Open house ${openHouse}`),
+      url,
+   ]
+      .filter(Boolean)
+      .join("\n");
+
+   const link = (content: string) =>
+      url ? `<a href="${escapeHtml(url)}" style="color:#1a1a1a;text-decoration:none">${content}</a>` : content;
+   const cells = [
+      cover &&
+         `<tr><td>${link(
+            `<img src="${escapeHtml(imageUrl(cover, options.imageBaseUrl))}" alt="${escapeHtml(address)}" width="560" style="display:block;width:100%;max-width:560px;height:auto;border:0">`
+         )}</td></tr>`,
+      price &&
+         `<tr><td style="padding:12px 16px 0;font-size:20px;font-weight:bold">${link(escapeHtml(sold ? `Sold ${price}` : price))}</td></tr>`,
+      summary && `<tr><td style="padding:4px 16px 0;font-size:14px">${escapeHtml(summary)}</td></tr>`,
+      address && `<tr><td style="padding:4px 16px 0;font-size:14px;color:#555555">${escapeHtml(address)}</td></tr>`,
+      ...openHouses.map(
+         (openHouse) => `<tr><td style="padding:4px 16px 0;font-size:13px">Open house ${escapeHtml(openHouse)}</td></tr>`
+      ),
+      `<tr><td style="padding:0 0 12px"></td></tr>`,
+   ].filter(Boolean);
+   const html =
+      `<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" ` +
+      `style="max-width:560px;border:1px solid #dddddd;border-collapse:collapse;font-family:Arial,sans-serif">` +
+      cells.join("") +
+      `</table>`;
+
+   return { mlsNumber: listing.mlsNumber ?? "", html, text };
+};
+
+/** cards for the listings of a message, the other content is left to the caller */
+export const renderListings = async (
+   content: Pick<Messages.Content, "listings">,
+   resolve: Resolve,
+   options: CardOptions = {}
+): Promise<RenderedListings> => {
+   const cards: Card[] = [];
+   const missing: string[] = [];
+   for (const mlsNumber of new Set(content.listings ?? [])) {
+      const listing = await resolve(mlsNumber);
+      if (listing) cards.push(renderCard(listing, options));
+      else missing.push(mlsNumber);
+   }
+   return {
+      cards,
+      missing,
+      html: cards.map((card) => card.html).join(`\n<div style="height:16px"></div>\n`),
+      text: cards.map((card) => card.text).join("\n\n"),
+   };
+};
@@ -1,6 +1,19 @@
 import { Estimate } from "./estimate.js";
 import { ApiRequest, ApiResponse, Operator, Class } from "./index.js";
+import * as Messages from "./messages.js";
+import { parseDate } from "./normalize.js";
 import * as Searches from "./searches.js";
+import { Storage, copy, createLock, memoryStorage } from "./storage.js";
+
+/** a saved search as nested in Client.searches */
+export interface ClientSearch extends Searches.SearchFields {
+   searchId: number;
+   agentId: number;
+   /**
+    * @deprecated the name of `class` in some API responses, `normalizeSearch` moves it to `class`
+    */
+   classes?: Class[];
+}
 
 export interface Client {
    clientId: number;
@@ -11,56 +24,68 @@ export interface Client {
    email: string;
    proxyEmail: string;
    status: boolean;
-   lastActivity: null | unknown;
-   tags: string;
+   /** ISO timestamp, `null` for a client who never used the portal */
+   lastActivity: string | null;
+   tags: string[];
    preferences: {
       email: boolean;
       sms: boolean;
       unsubscribe: boolean;
       whatsapp: boolean;
    };
-   expiryDate: null | unknown;
-   searches?: Omit<Searches.CreateResponse, "class"> & {
-      //TODO: classes name is a bug and should be fixed soon
-      classes?: Class[];
-   }[]; 
+   /** ISO timestamp after which the client is no longer active, `null` when it never expires */
+   expiryDate: string | null;
+   searches?: ClientSearch[];
    createdOn: string;
    estimates?: Estimate[];
    externalId: string | null;
 }
 
+export type Condition = "EXACT" | "CONTAINS";
+
+/** the search with its classes in `class`, whichever of `class` and `classes` the API sent */
+export const normalizeSearch = <T extends ClientSearch>(search: T): T => {
+   const { classes, ...rest } = search;
+   const merged = [...new Set([...(search.class ?? []), ...(classes ?? [])])];
+   return { ...rest, ...(merged.length && { class: merged }) } as T;
+};
+
+const timestamp = (value: unknown): string | null => parseDate(value)?.toISOString() ?? null;
+
+/**
+ * A client as returned by the API or read from an older store, with searches normalized,
+ * tags as a list and the timestamps as ISO strings (`null` when missing or invalid).
+ */
+export const normalizeClient = <T extends Client>(client: T): T => ({
+   ...client,
+   lastActivity: timestamp(client.lastActivity),
+   expiryDate: timestamp(client.expiryDate),
+   tags: parseTags(client.tags),
+   ...(client.searches && { searches: client.searches.map(normalizeSearch) }),
+});
+
 export interface CreateRequest extends ApiRequest {
    agentId?: number;
    clientId?: number;
    email?: string;
    fname?: string;
    lname?: string;
-   /**
-    * One or more keywords may be specified to filter the results by. Useful for searching clients. If specified all other params are ignored.  
-    * */
-   keywords?: string;
-   phone?: number;
+   phone?: string;
    status?: boolean;
-   /**
-    * Determines the search condition applied to the filters. If EXACT, requires that the given value for one or more params is an exact match of the stored value. If CONTAINS, requires that the given value for one or more params is contained within the stored value.
-    */
-   conditions?: "EXACT" | "CONTAINS";
-   /**
-    * Determines the search logic applied to the filters. If OR, requires that one or more params contain/equal the given value. If AND, requires that all params contain/equal the given value.
-    */
-   operator?: "AND" | "OR";
+   tags?: string[];
+   externalId?: string;
+   /** @deprecated a FilterRequest param, ignored */
+   keywords?: string;
+   /** @deprecated see FilterRequest.condition, ignored */
+   conditions?: Condition;
+   /** @deprecated a FilterRequest param, ignored */
+   operator?: Operator;
+   /** @deprecated a FilterRequest param, ignored */
    pageNum?: number;
+   /** @deprecated a FilterRequest param, ignored */
    resultsPerPage?: number;
-   /**
-    * One or more comma separated strings that can be used to filter clients. For example GET /clients?tags=buyer,toronto. The response contains clients that have any of the tags specified.
-    */
-   tags?: string[];
-   /**
-    * Enables automatic retrieval of Saved Searches for each client in the response. For best performance it's recommended to disable this setting if Saved Searches are not required.
-    * @defaultValue `true`
-    */
+   /** @deprecated a FilterRequest param, ignored */
    showSavedSearches?: boolean;
-   externalId?: string;
 }
 
 export interface CreateResponse extends ApiResponse, Client {}
@@ -71,23 +96,48 @@ export interface UpdateRequest extends CreateRequest, ApiRequest {
 
 export interface UpdateResponse extends ApiResponse, Client {}
 
+export interface DeleteRequest extends ApiRequest {
+   clientId: number;
+}
 export interface DeleteResponse extends ApiResponse {}
+
+export interface GetRequest extends ApiRequest {
+   clientId: number;
+}
 export interface GetResponse extends ApiResponse, Client {}
 
 export interface FilterRequest extends ApiRequest {
    agentId?: number;
    clientId?: number;
-   email: string | undefined;
+   email?: string;
    fname?: string;
+   /**
+    * One or more keywords may be specified to filter the results by. Useful for searching clients. If specified all other params are ignored.
+    * */
    keywords?: string;
    lname?: string;
-   phone?: string | undefined;
+   phone?: string;
    status?: boolean;
-   condition?: "EXACT" | "CONTAINS";
+   /**
+    * Determines the search condition applied to the filters. If EXACT, requires that the given value for one or more params is an exact match of the stored value. If CONTAINS, requires that the given value for one or more params is contained within the stored value.
+    */
+   condition?: Condition;
+   /**
+    * Determines the search logic applied to the filters. If OR, requires that one or more params contain/equal the given value. If AND, requires that all params contain/equal the given value.
+    */
    operator?: Operator;
    pageNum?: number;
    resultsPerPage?: number;
-   tags?: string;
+   /**
+    * One or more strings that can be used to filter clients, sent comma separated: GET /clients?tags=buyer,toronto. The response contains clients that have any of the tags specified.
+    */
+   tags?: string[];
+   /**
+    * Enables automatic retrieval of Saved Searches for each client in the response. For best performance it's recommended to disable this setting if Saved Searches are not required.
+    * @defaultValue `true`
+    */
+   showSavedSearches?: boolean;
+   externalId?: string;
 }
 
 export interface FilterResponse extends ApiResponse {
@@ -98,11 +148,341 @@ export interface FilterResponse extends ApiResponse {
    clients: Array<Client>;
 }
 
-export interface GetTagsResponse extends ApiResponse {}
+export interface TagUsage {
+   tag: string;
+   /** clients with the tag */
+   count: number;
+}
 
+export interface GetTagsResponse extends ApiResponse {
+   /** most used first */
+   tags: TagUsage[];
+}
+
+/** renaming to a tag that already exists merges the two */
 export interface RenameTagRequest extends ApiRequest {
    tag: string;
    label: string;
 }
 
-export interface RenameTagResponse extends ApiResponse {}
+export interface RenameTagResponse extends ApiResponse {
+   /** clients that were rewritten */
+   updated: number;
+}
+
+export interface MergeTagsRequest extends ApiRequest {
+   tags: string[];
+   label: string;
+}
+
+export interface DeleteTagRequest extends ApiRequest {
+   tag: string;
+}
+
+/**
+ * Tags as a list, from a list or a comma-separated string (`"buyer, toronto"`).
+ * Tags are trimmed and deduplicated ignoring case, the first spelling wins.
+ */
+export const parseTags = (value: string | readonly string[] | null | undefined): string[] => {
+   const items = typeof value === "string" ? value.split(",") : value ?? [];
+   const seen = new Set<string>();
+   const tags: string[] = [];
+   for (const item of items) {
+      const tag = item.trim();
+      if (!tag || seen.has(tag.toLowerCase())) continue;
+      seen.add(tag.toLowerCase());
+      tags.push(tag);
+   }
+   return tags;
+};
+
+export const formatTags = (tags: readonly string[]): string => parseTags(tags).join(",");
+
+export const hasAnyTag = (client: Pick<Client, "tags">, tags: string | readonly string[]): boolean => {
+   const wanted = new Set(parseTags(tags).map((tag) => tag.toLowerCase()));
+   return parseTags(client.tags).some((tag) => wanted.has(tag.toLowerCase()));
+};
+
+/** per-tag client counts, most used first then by name */
+export const tagUsage = (clients: readonly Pick<Client, "tags">[]): TagUsage[] => {
+   const counts = new Map<string, TagUsage>();
+   for (const client of clients) {
+      for (const tag of parseTags(client.tags)) {
+         const usage = counts.get(tag.toLowerCase()) ?? { tag, count: 0 };
+         usage.count += 1;
+         counts.set(tag.toLowerCase(), usage);
+      }
+   }
+   return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/**
+ * Replaces the `from` tags of a client by `label`, or removes them when `label` is `null`.
+ * Returns `undefined` when the client has none of them.
+ */
+export const retag = <T extends Pick<Client, "tags">>(client: T, from: readonly string[], label: string | null): T | undefined => {
+   const removed = new Set(parseTags(from).map((tag) => tag.toLowerCase()));
+   const tags = parseTags(client.tags);
+   if (!tags.some((tag) => removed.has(tag.toLowerCase()))) return undefined;
+   const kept = tags.flatMap((tag) => (removed.has(tag.toLowerCase()) ? (label === null ? [] : [label]) : [tag]));
+   return { ...client, tags: parseTags(kept) };
+};
+
+export interface BulkMessageRequest {
+   agentId: number;
+   /** clients with any of these tags, a list or a comma-separated string */
+   tags: string | string[];
+   content: Messages.SendRequest["content"];
+   /** inactive clients and clients who unsubscribed are skipped unless set @defaultValue `false` */
+   includeInactive?: boolean;
+}
+
+/** one agent message per tagged client, e.g. a listing for everyone tagged `buyer,toronto` */
+export const bulkMessages = (clients: readonly Client[], request: BulkMessageRequest): Messages.SendRequest[] =>
+   clients
+      .filter((client) => hasAnyTag(client, request.tags))
+      .filter((client) => request.includeInactive || (client.status && !client.preferences.unsubscribe))
+      .map((client) => ({
+         sender: "agent",
+         agentId: request.agentId,
+         clientId: client.clientId,
+         content: JSON.parse(JSON.stringify(request.content)),
+      }));
+
+export interface RepositoryState {
+   version: 1;
+   nextClientId: number;
+   clients: Client[];
+}
+
+export interface RepositoryDependencies {
+   /** agent of clients created without one */
+   agentId?: number;
+   now?: () => Date;
+}
+
+export interface Repository {
+   create(request: CreateRequest): Promise<CreateResponse>;
+   update(request: UpdateRequest): Promise<UpdateResponse>;
+   delete(request: DeleteRequest): Promise<DeleteResponse>;
+   get(request: GetRequest): Promise<GetResponse>;
+   filter(request: FilterRequest): Promise<FilterResponse>;
+   getTags(): Promise<GetTagsResponse>;
+   renameTag(request: RenameTagRequest): Promise<RenameTagResponse>;
+   mergeTags(request: MergeTagsRequest): Promise<RenameTagResponse>;
+   deleteTag(request: DeleteTagRequest): Promise<RenameTagResponse>;
+   /** clients with any of the tags */
+   tagged(tags: string | string[]): Promise<Client[]>;
+}
+
+export class RepositoryError extends Error {
+   constructor(message: string) {
+      super(message);
+      this.name = "RepositoryError";
+   }
+}
+
+const emptyState = (): RepositoryState => ({ version: 1, nextClientId: 1, clients: [] });
+
+type TextField = "email" | "fname" | "lname" | "phone" | "externalId";
+
+const TEXT_FIELDS: TextField[] = ["email", "fname", "lname", "phone", "externalId"];
+
+const fold = (field: TextField, value: string) =>
+   field === "phone" ? value.replace(/\D/g, "") : value.trim().toLowerCase();
+
+const compare = (field: TextField, stored: string | null, given: string, condition: Condition) => {
+   if (stored === null) return false;
+   const left = fold(field, stored);
+   const right = fold(field, given);
+   if (!right) return false;
+   return condition === "EXACT" ? left === right : left.includes(right);
+};
+
+/** one result per given param, `undefined` params are not part of the filter */
+const checks = (client: Client, request: FilterRequest): boolean[] => {
+   const condition = request.condition ?? "EXACT";
+   const results: boolean[] = [];
+   if (request.agentId !== undefined) results.push(client.agentId === request.agentId);
+   if (request.clientId !== undefined) results.push(client.clientId === request.clientId);
+   if (request.status !== undefined) results.push(client.status === request.status);
+   for (const field of TEXT_FIELDS) {
+      const given = request[field];
+      if (given !== undefined && given !== "") results.push(compare(field, client[field], given, condition));
+   }
+   if (request.tags?.length) results.push(hasAnyTag(client, request.tags));
+   return results;
+};
+
+/** every keyword must appear in one of the client's names, email, phone, tags or externalId */
+const matchesKeywords = (client: Client, keywords: string) => {
+   const haystack = [client.fname, client.lname, client.email, client.phone, client.externalId ?? "", ...client.tags]
+      .join(" ")
+      .toLowerCase();
+   return keywords
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(Boolean)
+      .every((keyword) => haystack.includes(keyword));
+};
+
+export const matches = (client: Client, request: FilterRequest): boolean => {
+   if (request.keywords?.trim()) return matchesKeywords(client, request.keywords);
+   const results = checks(client, request);
+   if (!results.length) return true;
+   return request.operator === "OR" ? results.some(Boolean) : results.every(Boolean);
+};
+
+/**
+ * A local client store with the semantics of GET /clients, for offline demos and tests.
+ *
+ * Filters follow the FilterRequest docs: `keywords` replaces every other filter (pagination still applies),
+ * otherwise `condition` decides how text params compare to the stored values and `operator` how the params
+ * combine. Numbers and booleans always compare exactly, `tags` matches a client with any of the given tags.
+ * Text comparisons ignore case, phone numbers compare on their digits only; a param with nothing left to
+ * compare, e.g. a phone without digits, matches no client.
+ * Tag operations rewrite every affected client and store the result with a single write.
+ * Operations, tag operations included, run one at a time in call order, so concurrent calls do not overwrite
+ * each other.
+ */
+export const createRepository = (
+   storage: Storage<RepositoryState> = memoryStorage<RepositoryState>(),
+   dependencies: RepositoryDependencies = {}
+): Repository => {
+   const now = dependencies.now ?? (() => new Date());
+   // every operation reads the whole state and writes it back, they must not interleave
+   const exclusive = createLock();
+   const load = async () => {
+      const state = (await storage.read()) ?? emptyState();
+      // older stores kept tags as one comma-separated string and searches with `classes`
+      state.clients = state.clients.map(normalizeClient);
+      return state;
+   };
+   const find = (state: RepositoryState, clientId: number) => {
+      const index = state.clients.findIndex((client) => client.clientId === clientId);
+      if (index < 0) throw new RepositoryError(`client ${clientId} not found`);
+      return index;
+   };
+   const retagAll = (from: string[], label: string | null): Promise<RenameTagResponse> =>
+      exclusive(async () => {
+         if (label !== null && !label.trim()) throw new RepositoryError("label is required");
+         if (!parseTags(from).length) throw new RepositoryError("tag is required");
+         const state = await load();
+         let updated = 0;
+         state.clients = state.clients.map((client) => {
+            const next = retag(client, from, label === null ? null : label.trim());
+            if (!next) return client;
+            updated++;
+            return next;
+         });
+         if (updated) await storage.write(state);
+         return { updated };
+      });
+   /** the client fields of a request, without the extra keys an ApiRequest may carry */
+   const fields = (request: CreateRequest): Partial<Client> => {
+      const { agentId, email, fname, lname, phone, status, externalId } = request;
+      return Object.fromEntries(
+         Object.entries({ agentId, email, fname, lname, phone, status, externalId }).filter(([, item]) => item !== undefined)
+      );
+   };
+
+   return {
+      create: (request) =>
+         exclusive(async () => {
+            const state = await load();
+            const agentId = request.agentId ?? dependencies.agentId;
+            if (agentId === undefined) throw new RepositoryError("agentId is required");
+            const clientId = request.clientId ?? state.nextClientId;
+            if (state.clients.some((client) => client.clientId === clientId)) {
+               throw new RepositoryError(`client ${clientId} already exists`);
+            }
+            const client: Client = {
+               clientId,
+               agentId,
+               fname: request.fname ?? "",
+               lname: request.lname ?? "",
+               phone: request.phone ?? "",
+               email: request.email ?? "",
+               proxyEmail: "",
+               status: request.status ?? true,
+               lastActivity: null,
+               tags: parseTags(request.tags),
+               preferences: { email: true, sms: false, unsubscribe: false, whatsapp: false },
+               expiryDate: null,
+               createdOn: now().toISOString(),
+               externalId: request.externalId ?? null,
+            };
+            state.clients.push(client);
+            state.nextClientId = Math.max(state.nextClientId, clientId + 1);
+            await storage.write(state);
+            return { ...copy(client) };
+         }),
+
+      update: (request) =>
+         exclusive(async () => {
+            const { clientId } = request;
+            const state = await load();
+            const index = find(state, clientId);
+            const client: Client = {
+               ...state.clients[index],
+               ...fields(request),
+               tags: parseTags(request.tags ?? state.clients[index].tags),
+            };
+            state.clients[index] = client;
+            await storage.write(state);
+            return { ...copy(client) };
+         }),
+
+      delete: ({ clientId }) =>
+         exclusive(async () => {
+            const state = await load();
+            state.clients.splice(find(state, clientId), 1);
+            await storage.write(state);
+            return {};
+         }),
+
+      get: ({ clientId }) =>
+         exclusive(async () => {
+            const state = await load();
+            return { ...copy(state.clients[find(state, clientId)]) };
+         }),
+
+      filter: (request) =>
+         exclusive(async () => {
+            const { clients } = await load();
+            const found = clients.filter((client) => matches(client, request));
+            const pageSize = Math.max(1, request.resultsPerPage ?? 100);
+            const page = Math.max(1, request.pageNum ?? 1);
+            const result = found.slice((page - 1) * pageSize, page * pageSize).map((client) => {
+               if (request.showSavedSearches !== false) return client;
+               const { searches: _searches, ...rest } = client;
+               return rest;
+            });
+            return {
+               page,
+               numPages: Math.ceil(found.length / pageSize),
+               pageSize,
+               count: found.length,
+               clients: copy(result),
+            };
+         }),
+
+      getTags: () =>
+         exclusive(async () => {
+            const { clients } = await load();
+            return { tags: tagUsage(clients) };
+         }),
+
+      renameTag: ({ tag, label }) => retagAll([tag], label),
+
+      mergeTags: ({ tags, label }) => retagAll(tags, label),
+
+      deleteTag: ({ tag }) => retagAll([tag], null),
+
+      tagged: (tags) =>
+         exclusive(async () => {
+            const { clients } = await load();
+            return copy(clients.filter((client) => hasAnyTag(client, tags)));
+         }),
+   };
+};
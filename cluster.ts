@@ -0,0 +1,139 @@
+import * as Listings from "./listings.js";
+import { BoundingBox, Point, Position, boundingBox, listingPoint } from "./geo.js";
+import { projectFields } from "./fields.js";
+import { parseNumber } from "./normalize.js";
+import { summarize } from "./stats.js";
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+export interface ClusterOptions {
+   /**
+    * geohash length, 1 is continent sized and 9 is a few metres
+    * @defaultValue `5`
+    */
+   precision?: number;
+   /** keep only the N largest clusters */
+   limit?: number;
+   /** comma-separated listing fields returned for single-listing clusters, e.g. `mlsNumber,listPrice` */
+   fields?: string;
+   /** adds listPrice, soldPrice and daysOnMarket statistics to every cluster */
+   statistics?: boolean;
+}
+
+export const encodeGeohash = ({ latitude, longitude }: Point, precision: number): string => {
+   let minLat = -90, maxLat = 90;
+   let minLng = -180, maxLng = 180;
+   let hash = "";
+   let bits = 0;
+   let value = 0;
+   let even = true;
+   while (hash.length < precision) {
+      if (even) {
+         const mid = (minLng + maxLng) / 2;
+         if (longitude >= mid) {
+            value = (value << 1) | 1;
+            minLng = mid;
+         } else {
+            value <<= 1;
+            maxLng = mid;
+         }
+      } else {
+         const mid = (minLat + maxLat) / 2;
+         if (latitude >= mid) {
+            value = (value << 1) | 1;
+            minLat = mid;
+         } else {
+            value <<= 1;
+            maxLat = mid;
+         }
+      }
+      even = !even;
+      if (++bits === 5) {
+         hash += BASE32[value];
+         bits = 0;
+         value = 0;
+      }
+   }
+   return hash;
+};
+
+/** bounds of the geohash cell */
+export const decodeGeohash = (hash: string): BoundingBox => {
+   let minLat = -90, maxLat = 90;
+   let minLng = -180, maxLng = 180;
+   let even = true;
+   for (const char of hash.toLowerCase()) {
+      const value = BASE32.indexOf(char);
+      if (value === -1) throw new TypeError(`invalid geohash character "${char}" in ${hash}`);
+      for (let bit = 4; bit >= 0; bit--) {
+         const on = (value >> bit) & 1;
+         if (even) {
+            const mid = (minLng + maxLng) / 2;
+            if (on) minLng = mid;
+            else maxLng = mid;
+         } else {
+            const mid = (minLat + maxLat) / 2;
+            if (on) minLat = mid;
+            else maxLat = mid;
+         }
+         even = !even;
+      }
+   }
+   return { minLatitude: minLat, maxLatitude: maxLat, minLongitude: minLng, maxLongitude: maxLng };
+};
+
+const numbers = (listings: Listings.Listing[], field: keyof Listings.Listing): number[] =>
+   listings.map((listing) => parseNumber(listing[field])).filter((value): value is number => typeof value === "number");
+
+/**
+ * Groups listings by the geohash cell of Listing.map.
+ * Listings without coordinates are left out. Clusters are ordered by count, largest first.
+ */
+export const cluster = (listings: Listings.Listing[], options: ClusterOptions = {}): Listings.Cluster[] => {
+   const precision = Math.min(12, Math.max(1, Math.round(options.precision ?? 5)));
+   const cells = new Map<string, Array<{ listing: Listings.Listing; point: Point }>>();
+   for (const listing of listings) {
+      const point = listingPoint(listing);
+      if (!point) continue;
+      const hash = encodeGeohash(point, precision);
+      const members = cells.get(hash) ?? [];
+      members.push({ listing, point });
+      cells.set(hash, members);
+   }
+
+   const clusters = [...cells.entries()].map(([geohash, members]): Listings.Cluster => {
+      const box = boundingBox(members.map(({ point }): Position => [point.longitude, point.latitude]));
+      const result: Listings.Cluster = {
+         geohash,
+         count: members.length,
+         location: {
+            lat: members.reduce((sum, { point }) => sum + point.latitude, 0) / members.length,
+            lng: members.reduce((sum, { point }) => sum + point.longitude, 0) / members.length,
+         },
+         bounds: {
+            topLeft: { lat: box.maxLatitude, lng: box.minLongitude },
+            bottomRight: { lat: box.minLatitude, lng: box.maxLongitude },
+         },
+      };
+      if (members.length === 1 && options.fields) result.listing = projectFields(members[0].listing, options.fields);
+      if (options.statistics) {
+         const group = members.map(({ listing }) => listing);
+         result.statistics = {
+            listPrice: summarize(numbers(group, "listPrice")),
+            soldPrice: summarize(numbers(group, "soldPrice")),
+            daysOnMarket: summarize(numbers(group, "daysOnMarket")),
+         };
+      }
+      return result;
+   });
+
+   clusters.sort((a, b) => b.count - a.count || a.geohash.localeCompare(b.geohash));
+   return options.limit !== undefined ? clusters.slice(0, Math.max(0, options.limit)) : clusters;
+};
+
+export const clusterOptions = (request: Listings.SearchRequest): ClusterOptions => ({
+   precision: request.clusterPrecision,
+   limit: request.clusterLimit,
+   fields: request.clusterFields,
+   statistics: request.clusterStatistics,
+});
@@ -0,0 +1,201 @@
+import * as Listings from "./listings.js";
+import { distance } from "./geo.js";
+import { NormalizedListing, lotArea, midpoint, normalizeListing } from "./normalize.js";
+import { summarize } from "./stats.js";
+
+export type Feature = "sqft" | "bedrooms" | "bathrooms" | "lotSize" | "age";
+
+export interface AdjustmentRates {
+   /** per square foot of living area, defaults to half the median sold price per sqft of the comps */
+   sqft: number;
+   bedrooms: number;
+   bathrooms: number;
+   /** per square foot of lot */
+   lotSize: number;
+   /** per year of difference in yearBuilt */
+   age: number;
+}
+
+export const DEFAULT_RATES: Omit<AdjustmentRates, "sqft"> = {
+   bedrooms: 15000,
+   bathrooms: 10000,
+   lotSize: 2,
+   age: 1000,
+};
+
+export interface CompsOptions {
+   /** km around the subject, comps without coordinates are skipped @defaultValue `2` */
+   radius?: number;
+   /** max distance between the subject listPrice and the comp soldPrice, like SimilarRequest.listPriceRange */
+   listPriceRange?: number;
+   /** sales older than this are skipped @defaultValue `180` */
+   maxAgeDays?: number;
+   /** @defaultValue `6` */
+   limit?: number;
+   /** only comps of the subject class and propertyType, leases are never comps @defaultValue `true` */
+   sameType?: boolean;
+   rates?: Partial<AdjustmentRates>;
+   now?: Date;
+}
+
+export interface Adjustment {
+   feature: Feature;
+   subject: number | null;
+   comp: number | null;
+   /** added to the sold price, `0` when either side is unknown */
+   amount: number;
+}
+
+export interface Comp {
+   listing: Listings.Listing;
+   soldPrice: number;
+   soldDate: string | null;
+   /** km from the subject */
+   distance: number | null;
+   adjustments: Adjustment[];
+   adjustedPrice: number;
+   /** sum of the absolute adjustments divided by the sold price */
+   grossAdjustment: number;
+}
+
+export interface ValueRange {
+   low: number;
+   high: number;
+   median: number;
+   /** mean of the adjusted prices weighted by similarity (inverse gross adjustment) */
+   weighted: number;
+}
+
+export interface CompsResult {
+   subject: Listings.Listing;
+   comps: Comp[];
+   /** `null` when no comp qualified */
+   range: ValueRange | null;
+   rates: AdjustmentRates;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** sales only, the sold price of a lease (`Lsd`) is a monthly rent */
+const isSold = (listing: NormalizedListing) =>
+   listing.type === "sale" && listing.lastStatus === "Sld" && !!listing.soldPrice;
+
+const livingArea = (listing: NormalizedListing) => listing.details.sqft ?? midpoint(listing.details.sqftRange);
+
+const measures: Record<Feature, (listing: NormalizedListing) => number | null> = {
+   sqft: livingArea,
+   bedrooms: (listing) => listing.details.numBedrooms,
+   bathrooms: (listing) => listing.details.numBathrooms,
+   lotSize: (listing) => lotArea(listing.lot),
+   age: (listing) => listing.details.yearBuilt,
+};
+
+/** the SimilarRequest that fetches candidates for the subject from the API */
+export const similarRequest = (
+   subject: Listings.Listing,
+   { radius = 2, listPriceRange }: Pick<CompsOptions, "radius" | "listPriceRange"> = {}
+): Listings.SimilarRequest => ({
+   propertyId: subject.mlsNumber ?? "",
+   radius,
+   ...(listPriceRange !== undefined && { listPriceRange }),
+   ...(subject.boardId !== undefined && { boardId: [subject.boardId] }),
+});
+
+export const adjust = (subject: Listings.Listing, comp: Listings.Listing, rates: AdjustmentRates): Comp => {
+   const left = normalizeListing(subject).listing;
+   const right = normalizeListing(comp).listing;
+   const soldPrice = right.soldPrice ?? 0;
+   const adjustments = (Object.keys(measures) as Feature[]).map((feature): Adjustment => {
+      const subjectValue = measures[feature](left);
+      const compValue = measures[feature](right);
+      const amount = subjectValue === null || compValue === null ? 0 : rates[feature] * (subjectValue - compValue);
+      return { feature, subject: subjectValue, comp: compValue, amount: Math.round(amount) };
+   });
+   const total = adjustments.reduce((sum, { amount }) => sum + amount, 0);
+   const gross = adjustments.reduce((sum, { amount }) => sum + Math.abs(amount), 0);
+   return {
+      listing: comp,
+      soldPrice,
+      soldDate: right.soldDate?.toISOString() ?? null,
+      distance: left.map && right.map ? distance(left.map, right.map) : null,
+      adjustments,
+      adjustedPrice: soldPrice + total,
+      grossAdjustment: soldPrice ? gross / soldPrice : Infinity,
+   };
+};
+
+/** the candidates that qualify as comps of the subject, before adjustment */
+export const selectComps = (
+   subject: Listings.Listing,
+   candidates: Listings.Listing[],
+   { radius = 2, listPriceRange, maxAgeDays = 180, sameType = true, now = new Date() }: CompsOptions = {}
+): Listings.Listing[] => {
+   const target = normalizeListing(subject).listing;
+   return candidates.filter((candidate) => {
+      if (candidate.mlsNumber && candidate.mlsNumber === subject.mlsNumber) return false;
+      const comp = normalizeListing(candidate).listing;
+      if (!isSold(comp)) return false;
+      if (comp.soldDate && now.getTime() - comp.soldDate.getTime() > maxAgeDays * DAY) return false;
+      if (!target.map || !comp.map || distance(target.map, comp.map) > radius) return false;
+      if (listPriceRange !== undefined && target.listPrice !== null) {
+         if (Math.abs(comp.soldPrice! - target.listPrice) > listPriceRange) return false;
+      }
+      if (sameType) {
+         if (target.class && comp.class && target.class !== comp.class) return false;
+         const type = (listing: NormalizedListing) => listing.details.propertyType?.toLowerCase();
+         if (type(target) && type(comp) && type(target) !== type(comp)) return false;
+      }
+      return true;
+   });
+};
+
+/**
+ * Comparable sales: picks recent sales (type sale, lastStatus `Sld`) near a subject listing and adjusts their sold price
+ * for the differences with the subject, the way an appraisal grid does.
+ * Listing.comparables are used when no candidates are given.
+ *
+ * An adjustment is `rate * (subject - comp)`: a comp with one bedroom less than the subject
+ * is worth one bedroom more once adjusted. Comps are ranked by gross adjustment,
+ * the sum of the absolute adjustments relative to the sold price, so the most similar sales come first.
+ */
+export const comps = (
+   subject: Listings.Listing,
+   candidates: Listings.Listing[] = (subject.comparables ?? []) as Listings.Listing[],
+   options: CompsOptions = {}
+): CompsResult => {
+   const selected = selectComps(subject, candidates, options);
+   const pricesPerSqft = selected
+      .map((listing) => normalizeListing(listing).listing)
+      .map((listing) => {
+         const sqft = livingArea(listing);
+         return sqft && listing.soldPrice ? listing.soldPrice / sqft : null;
+      })
+      .filter((value): value is number => value !== null);
+   const rates: AdjustmentRates = {
+      sqft: (summarize(pricesPerSqft, ["med"])?.med ?? 0) / 2,
+      ...DEFAULT_RATES,
+      ...options.rates,
+   };
+
+   const result = selected
+      .map((listing) => adjust(subject, listing, rates))
+      .sort((a, b) => a.grossAdjustment - b.grossAdjustment || (a.distance ?? Infinity) - (b.distance ?? Infinity))
+      .slice(0, Math.max(0, options.limit ?? 6));
+
+   let range: ValueRange | null = null;
+   if (result.length) {
+      const prices = result.map(({ adjustedPrice }) => adjustedPrice);
+      const stat = summarize(prices, ["min", "max", "med"])!;
+      // a comp that needed no adjustment at all would get an infinite weight
+      const weights = result.map(({ grossAdjustment }) => 1 / Math.max(grossAdjustment, 0.01));
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      range = {
+         low: stat.min!,
+         high: stat.max!,
+         median: stat.med!,
+         weighted: Math.round(prices.reduce((sum, price, index) => sum + price * weights[index], 0) / totalWeight),
+      };
+   }
+
+   return { subject, comps: result, range, rates };
+};
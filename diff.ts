@@ -0,0 +1,192 @@
+import { LastStatus, Status } from "./index.js";
+import * as Listings from "./listings.js";
+import { NormalizedListing, normalizeListing, parseDate } from "./normalize.js";
+
+interface BaseEvent {
+   key: string;
+   mlsNumber: string;
+   boardId?: number;
+   listing: Listings.Listing;
+}
+
+interface ChangeEvent extends BaseEvent {
+   previous: Listings.Listing;
+}
+
+export interface NewListing extends BaseEvent {
+   type: "NewListing";
+}
+
+/** `listing` is the last version seen, there is no current one */
+export interface ListingRemoved extends BaseEvent {
+   type: "ListingRemoved";
+}
+
+export interface PriceChange extends ChangeEvent {
+   type: "PriceChange";
+   previousPrice: number | null;
+   listPrice: number | null;
+   originalPrice: number | null;
+   /** listPrice - previousPrice */
+   change: number | null;
+   /** listPrice - originalPrice */
+   changeFromOriginal: number | null;
+}
+
+export interface StatusChange extends ChangeEvent {
+   type: "StatusChange";
+   from: { status: Status | null; lastStatus: LastStatus | null };
+   to: { status: Status | null; lastStatus: LastStatus | null };
+}
+
+export interface PhotosUpdated extends ChangeEvent {
+   type: "PhotosUpdated";
+   /** previous and current timestamps.photosUpdated */
+   from: string | null;
+   to: string | null;
+   imagesAdded: string[];
+   imagesRemoved: string[];
+}
+
+export interface OpenHouseAdded extends ChangeEvent {
+   type: "OpenHouseAdded";
+   openHouse: Listings.OpenHouse;
+}
+
+export interface OpenHouseRemoved extends ChangeEvent {
+   type: "OpenHouseRemoved";
+   openHouse: Listings.OpenHouse;
+}
+
+export type ListingEvent =
+   | NewListing
+   | ListingRemoved
+   | PriceChange
+   | StatusChange
+   | PhotosUpdated
+   | OpenHouseAdded
+   | OpenHouseRemoved;
+
+export type EventType = ListingEvent["type"];
+
+export interface DiffOptions {
+   /** only emit these events @defaultValue every type */
+   types?: EventType[];
+}
+
+export const listingKey = (listing: Pick<Listings.Listing, "mlsNumber" | "boardId">): string =>
+   `${listing.boardId ?? ""}:${listing.mlsNumber}`;
+
+const time = (value: unknown) => parseDate(value)?.getTime() ?? null;
+
+const openHouses = (listing: Listings.Listing) => {
+   const value = listing.openHouse as Record<string, Listings.OpenHouse> | Listings.OpenHouse[] | null | undefined;
+   const entries = !value ? [] : Array.isArray(value) ? value : Object.values(value);
+   return new Map(
+      entries.map((openHouse) => [
+         [openHouse.date, time(openHouse.startTime), time(openHouse.endTime)].join("|"),
+         openHouse,
+      ])
+   );
+};
+
+const difference = <T>(left: T[], right: T[]) => {
+   const exclude = new Set(right);
+   return left.filter((item) => !exclude.has(item));
+};
+
+const identify = (listing: Listings.Listing): BaseEvent => ({
+   key: listingKey(listing),
+   mlsNumber: listing.mlsNumber!,
+   ...(listing.boardId !== undefined && { boardId: listing.boardId }),
+   listing,
+});
+
+/** the events between two versions of the same listing */
+export const diffListing = (previous: Listings.Listing, listing: Listings.Listing): ListingEvent[] => {
+   const base = { ...identify(listing), previous };
+   const before: NormalizedListing = normalizeListing(previous).listing;
+   const after: NormalizedListing = normalizeListing(listing).listing;
+   const events: ListingEvent[] = [];
+
+   if (before.listPrice !== after.listPrice) {
+      const subtract = (a: number | null, b: number | null) => (a === null || b === null ? null : a - b);
+      events.push({
+         ...base,
+         type: "PriceChange",
+         previousPrice: before.listPrice,
+         listPrice: after.listPrice,
+         originalPrice: after.originalPrice,
+         change: subtract(after.listPrice, before.listPrice),
+         changeFromOriginal: subtract(after.listPrice, after.originalPrice),
+      });
+   }
+
+   // the raw lastStatus is kept, the feed has codes that normalization does not know
+   const state = (listing: Listings.Listing, normalized: NormalizedListing) => ({
+      status: normalized.status,
+      lastStatus: listing.lastStatus ?? null,
+   });
+   const from = state(previous, before);
+   const to = state(listing, after);
+   if (from.status !== to.status || from.lastStatus !== to.lastStatus) {
+      events.push({ ...base, type: "StatusChange", from, to });
+   }
+
+   const photos = (listing: Listings.Listing) => listing.timestamps?.photosUpdated ?? null;
+   if (time(photos(previous)) !== time(photos(listing))) {
+      const previousImages = previous.images ?? [];
+      const images = listing.images ?? [];
+      events.push({
+         ...base,
+         type: "PhotosUpdated",
+         from: photos(previous),
+         to: photos(listing),
+         imagesAdded: difference(images, previousImages),
+         imagesRemoved: difference(previousImages, images),
+      });
+   }
+
+   const previousOpenHouses = openHouses(previous);
+   const currentOpenHouses = openHouses(listing);
+   for (const [key, openHouse] of currentOpenHouses) {
+      if (!previousOpenHouses.has(key)) events.push({ ...base, type: "OpenHouseAdded", openHouse });
+   }
+   for (const [key, openHouse] of previousOpenHouses) {
+      if (!currentOpenHouses.has(key)) events.push({ ...base, type: "OpenHouseRemoved", openHouse });
+   }
+
+   return events;
+};
+
+/**
+ * Differences between two dumps of the same feed, as typed events.
+ *
+ * Listings are matched by mlsNumber and boardId, listings without an mlsNumber cannot be matched and are
+ * ignored. Change events carry the current listing and the previous one, so they can be passed straight to
+ * Alerts `offer`; NewListing and ListingRemoved have no `previous`.
+ * Events of one listing are emitted together, in the order of the current snapshot;
+ * ListingRemoved events come last.
+ */
+export const diff = (
+   previous: Listings.Listing[],
+   current: Listings.Listing[],
+   { types }: DiffOptions = {}
+): ListingEvent[] => {
+   const keyed = (listings: Listings.Listing[]) =>
+      new Map(listings.filter((listing) => listing.mlsNumber).map((listing) => [listingKey(listing), listing]));
+   const before = keyed(previous);
+   const after = keyed(current);
+   const events: ListingEvent[] = [];
+
+   for (const [key, listing] of after) {
+      const old = before.get(key);
+      if (!old) events.push({ ...identify(listing), type: "NewListing" });
+      else events.push(...diffListing(old, listing));
+   }
+   for (const [key, listing] of before) {
+      if (!after.has(key)) events.push({ ...identify(listing), type: "ListingRemoved" });
+   }
+
+   return types ? events.filter(({ type }) => types.includes(type)) : events;
+};
@@ -0,0 +1,375 @@
+import { DateFormat, SortBy } from "./index.js";
+import * as Listings from "./listings.js";
+import { cluster, clusterOptions } from "./cluster.js";
+import { aggregate } from "./facets.js";
+import { projectFields } from "./fields.js";
+import { createGeoFilter, distance, requestCenter } from "./geo.js";
+import { NormalizedListing, Range, getPath, normalizeListing, parseDate, parseNumber } from "./normalize.js";
+import { compute } from "./stats.js";
+
+export interface Entry {
+   listing: Listings.Listing;
+   normalized: NormalizedListing;
+}
+
+export type Predicate = (entry: Entry) => boolean;
+
+export interface EngineOptions {
+   /**
+    * Source of randomness for `sortBy: "random"`, inject a seeded one for deterministic tests.
+    * @defaultValue `Math.random`
+    */
+   random?: () => number;
+   /** @defaultValue `100` */
+   defaultResultsPerPage?: number;
+   /** reference time for rolling statistics windows @defaultValue `() => new Date()` */
+   now?: () => Date;
+}
+
+export interface Engine {
+   readonly entries: ReadonlyArray<Entry>;
+   search(request?: Listings.SearchRequest): Listings.SearchResponse;
+   /** listings matching the filters of the request, sorted but not paginated */
+   filter(request?: Listings.SearchRequest): Entry[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const normalizeText = (value: unknown): string | null =>
+   value === null || value === undefined ? null : String(value).trim().toLowerCase();
+
+/** case-insensitive membership test, an empty or missing list matches everything */
+const oneOf = (values: ReadonlyArray<unknown> | undefined, actual: unknown): boolean => {
+   if (!values?.length) return true;
+   const text = normalizeText(actual);
+   return text !== null && values.some((value) => normalizeText(value) === text);
+};
+
+const within = (value: number | null, min?: number | null, max?: number | null): boolean => {
+   if (min === undefined || min === null) min = -Infinity;
+   if (max === undefined || max === null) max = Infinity;
+   if (min === -Infinity && max === Infinity) return true;
+   return value !== null && value >= min && value <= max;
+};
+
+const rangeOverlaps = (range: Range | null, min?: number, max?: number): boolean =>
+   range !== null && (range.max ?? Infinity) >= (min ?? -Infinity) && (range.min ?? -Infinity) <= (max ?? Infinity);
+
+/** inclusive day range over DateFormat bounds */
+const withinDays = (value: Date | null, min?: DateFormat | string, max?: DateFormat | string): boolean => {
+   if (!min && !max) return true;
+   if (!value) return false;
+   const from = min ? parseDate(min)?.getTime() ?? -Infinity : -Infinity;
+   const to = max ? (parseDate(max)?.getTime() ?? Infinity) + DAY : Infinity;
+   return value.getTime() >= from && value.getTime() < to;
+};
+
+const defined = (...values: unknown[]) => values.some((value) => value !== undefined && value !== null && value !== "");
+
+const yearOf = (value: unknown): number | null | undefined => {
+   if (typeof value === "string" && /^\d{4}-/.test(value)) return Number(value.slice(0, 4));
+   return parseNumber(value);
+};
+
+const DEFAULT_SEARCH_FIELDS = [
+   "mlsNumber",
+   "address.streetNumber",
+   "address.streetName",
+   "address.streetSuffix",
+   "address.unitNumber",
+   "address.city",
+   "address.neighborhood",
+   "address.area",
+   "address.zip",
+   "details.description",
+];
+
+/**
+ * One predicate per criterion of the request. Bounds of the same criterion
+ * (minPrice/maxPrice) form one predicate so `operator: "OR"` stays meaningful.
+ */
+export const predicates = (request: Listings.SearchRequest): Predicate[] => {
+   const result: Predicate[] = [];
+   const add = (active: boolean, predicate: Predicate) => active && result.push(predicate);
+   const details = ({ normalized }: Entry) => normalized.details;
+
+   add(defined(request.minPrice, request.maxPrice), ({ normalized }) =>
+      within(normalized.listPrice, request.minPrice, request.maxPrice)
+   );
+   add(defined(request.minSoldPrice, request.maxSoldPrice), ({ normalized }) =>
+      within(normalized.soldPrice, parseNumber(request.minSoldPrice), request.maxSoldPrice)
+   );
+
+   const minBedrooms = request.minBedrooms ?? request.minBeds;
+   const maxBedrooms = request.maxBedrooms ?? request.maxBeds;
+   add(defined(minBedrooms, maxBedrooms), (entry) => within(details(entry).numBedrooms, minBedrooms, maxBedrooms));
+   const minBedroomsPlus = request.minBedroomsPlus ?? request.minBedsPlus;
+   const maxBedroomsPlus = request.maxBedroomsPlus ?? request.maxBedsPlus;
+   add(defined(minBedroomsPlus, maxBedroomsPlus), (entry) =>
+      within(details(entry).numBedroomsPlus ?? 0, minBedroomsPlus, maxBedroomsPlus)
+   );
+   add(defined(request.minBedroomsTotal, request.maxBedroomsTotal), (entry) => {
+      const { numBedrooms, numBedroomsPlus } = details(entry);
+      const total = numBedrooms === null ? null : numBedrooms + (numBedroomsPlus ?? 0);
+      return within(total, request.minBedroomsTotal, request.maxBedroomsTotal);
+   });
+   add(defined(request.minBaths, request.maxBaths), (entry) =>
+      within(details(entry).numBathrooms, request.minBaths, request.maxBaths)
+   );
+   add(defined(request.minKitchens, request.maxKitchens), (entry) =>
+      within(details(entry).numKitchens, request.minKitchens, request.maxKitchens)
+   );
+   add(defined(request.minGarageSpaces), (entry) => within(details(entry).numGarageSpaces, request.minGarageSpaces));
+   add(defined(request.minParkingSpaces), (entry) => within(details(entry).numParkingSpaces, request.minParkingSpaces));
+   add(defined(request.minSqft, request.maxSqft), (entry) => {
+      const { sqft, sqftRange } = details(entry);
+      return sqft !== null
+         ? within(sqft, request.minSqft, request.maxSqft)
+         : rangeOverlaps(sqftRange, request.minSqft, request.maxSqft);
+   });
+   add(defined(request.minYearBuilt, request.maxYearBuilt), (entry) =>
+      within(details(entry).yearBuilt, yearOf(request.minYearBuilt), request.maxYearBuilt)
+   );
+   add(defined(request.maxTaxes), ({ normalized }) => within(normalized.taxes.annualAmount, null, request.maxTaxes));
+   add(defined(request.maxMaintenanceFee), ({ normalized }) =>
+      within(normalized.condominium?.fees.maintenance ?? null, null, request.maxMaintenanceFee)
+   );
+
+   add(defined(request.area), ({ listing }) => oneOf([request.area], listing.address?.area));
+   add(!!request.city?.length, ({ listing }) => oneOf(request.city, listing.address?.city));
+   add(!!request.neighborhood?.length, ({ listing }) => oneOf(request.neighborhood, listing.address?.neighborhood));
+   add(!!request.district?.length, ({ listing }) => oneOf(request.district, listing.address?.district));
+   add(defined(request.zip), ({ listing }) => oneOf([request.zip], listing.address?.zip));
+   add(defined(request.state), ({ listing }) => oneOf([request.state], listing.address?.state));
+   add(defined(request.streetName), ({ listing }) => oneOf([request.streetName], listing.address?.streetName));
+   add(defined(request.streetNumber), ({ listing }) => oneOf([request.streetNumber], listing.address?.streetNumber));
+   add(defined(request.streetSuffix), ({ listing }) => oneOf([request.streetSuffix], listing.address?.streetSuffix));
+   add(!!request.unitNumber?.length, ({ listing }) => oneOf(request.unitNumber, listing.address?.unitNumber));
+   add(!!request.streetDirection?.length, ({ listing }) =>
+      oneOf(request.streetDirection, listing.address?.streetDirection)
+   );
+   add(defined(request.minStreetNumber, request.maxStreetNumber), ({ listing }) =>
+      within(parseNumber(listing.address?.streetNumber) ?? null, request.minStreetNumber, request.maxStreetNumber)
+   );
+
+   add(!!request.mlsNumber?.length, ({ listing }) => oneOf(request.mlsNumber, listing.mlsNumber));
+   add(!!request.boardId?.length, ({ listing }) => oneOf(request.boardId, listing.boardId));
+   add(!!request.class?.length, ({ normalized }) => oneOf(request.class, normalized.class));
+   add(!!request.type?.length, ({ normalized }) => oneOf(request.type, normalized.type));
+   add(!!request.status?.length, ({ normalized }) => oneOf(request.status, normalized.status));
+   add(!!request.lastStatus?.length, ({ listing }) => oneOf(request.lastStatus, listing.lastStatus));
+   add(!!request.propertyType?.length, ({ listing }) => oneOf(request.propertyType, listing.details?.propertyType));
+   add(!!request.style?.length, ({ listing }) => oneOf(request.style, listing.details?.style));
+   add(!!request.basement?.length, ({ listing }) =>
+      oneOf(request.basement, listing.details?.basement1) || oneOf(request.basement, listing.details?.basement2)
+   );
+   add(!!request.exteriorConstruction?.length, ({ listing }) =>
+      oneOf(request.exteriorConstruction, listing.details?.exteriorConstruction1) ||
+      oneOf(request.exteriorConstruction, listing.details?.exteriorConstruction2)
+   );
+   add(!!request.heating?.length, ({ listing }) => oneOf(request.heating, listing.details?.heating));
+   add(!!request.garage?.length, ({ listing }) => oneOf(request.garage, listing.details?.garage));
+   add(!!request.driveway?.length, ({ listing }) => oneOf(request.driveway, listing.details?.driveway));
+   add(!!request.sewer?.length, ({ listing }) => oneOf(request.sewer, listing.details?.sewer));
+   add(!!request.waterSource?.length, ({ listing }) => oneOf(request.waterSource, listing.details?.waterSource));
+   add(!!request.swimmingPool?.length, ({ listing }) => oneOf(request.swimmingPool, listing.details?.swimmingPool));
+   add(!!request.balcony?.length, ({ listing }) => oneOf(request.balcony, listing.details?.balcony));
+   add(!!request.businessType?.length, ({ listing }) => oneOf(request.businessType, listing.details?.businessType));
+   add(!!request.businessSubType?.length, ({ listing }) =>
+      oneOf(request.businessSubType, listing.details?.businessSubType)
+   );
+   add(!!request.sqft?.length, ({ listing }) => oneOf(request.sqft, listing.details?.sqft));
+   add(!!request.yearBuilt?.length, ({ listing }) => oneOf(request.yearBuilt, listing.details?.yearBuilt));
+   add(!!request.locker?.length, ({ listing }) => oneOf(request.locker, listing.condominium?.locker));
+   add(defined(request.den), ({ listing }) => oneOf([request.den], listing.details?.den));
+   add(defined(request.waterfront), ({ listing }) => oneOf([request.waterfront], listing.details?.waterfront));
+   add(defined(request.zoning), ({ listing }) => oneOf([request.zoning], listing.details?.zoning));
+   const amenities = request.amenities ?? [];
+   add(amenities.length > 0, ({ normalized }) => {
+      const available = [...(normalized.condominium?.ammenities ?? []), ...normalized.nearby.ammenities];
+      return amenities.every((amenity) => oneOf(available, amenity));
+   });
+
+   add(defined(request.displayPublic), ({ normalized }) =>
+      normalized.permissions.displayPublic === (request.displayPublic === "Y")
+   );
+   add(defined(request.displayAddressOnInternet), ({ normalized }) =>
+      normalized.permissions.displayAddressOnInternet === (request.displayAddressOnInternet === "Y")
+   );
+   add(defined(request.displayInternetEntireListing), ({ normalized }) =>
+      normalized.permissions.displayInternetEntireListing === (request.displayInternetEntireListing === "Y")
+   );
+   add(defined(request.hasImages), ({ normalized }) => (normalized.images.length > 0) === request.hasImages);
+   add(defined(request.hasAgents), ({ normalized }) => (normalized.agents.length > 0) === request.hasAgents);
+   add(!!request.agent?.length, ({ normalized }) =>
+      normalized.agents.some((agent) => oneOf(request.agent, agent.agentId) || oneOf(request.agent, agent.name))
+   );
+   add(defined(request.officeId), ({ normalized }) =>
+      normalized.agents.some((agent) => oneOf([request.officeId], agent.officeId))
+   );
+   const brokerage = normalizeText(request.brokerage) ?? "";
+   add(defined(request.brokerage), ({ normalized }) =>
+      normalizeText(normalized.office.brokerageName)?.includes(brokerage) ?? false
+   );
+
+   add(defined(request.listDate, request.minListDate, request.maxListDate), ({ normalized }) =>
+      withinDays(normalized.listDate, request.minListDate ?? request.listDate, request.maxListDate ?? request.listDate)
+   );
+   add(defined(request.minSoldDate, request.maxSoldDate), ({ normalized }) =>
+      withinDays(normalized.soldDate, request.minSoldDate, request.maxSoldDate)
+   );
+   add(defined(request.updatedOn, request.minUpdatedOn, request.maxUpdatedOn), ({ normalized }) =>
+      withinDays(
+         normalized.updatedOn,
+         request.minUpdatedOn ?? request.updatedOn,
+         request.maxUpdatedOn ?? request.updatedOn
+      )
+   );
+   add(defined(request.repliersUpdatedOn, request.minRepliersUpdatedOn, request.maxRepliersUpdatedOn), ({ normalized }) =>
+      withinDays(
+         normalized.timestamps.repliersUpdatedOn ?? null,
+         request.minRepliersUpdatedOn ?? request.repliersUpdatedOn,
+         request.maxRepliersUpdatedOn ?? request.repliersUpdatedOn
+      )
+   );
+   add(defined(request.minUnavailableDate, request.maxUnavailableDate), ({ normalized }) =>
+      withinDays(normalized.timestamps.unavailableDate ?? null, request.minUnavailableDate, request.maxUnavailableDate)
+   );
+   add(defined(request.minOpenHouseDate, request.maxOpenHouseDate), ({ normalized }) =>
+      normalized.openHouse.some((openHouse) =>
+         withinDays(openHouse.date ?? openHouse.startTime, request.minOpenHouseDate, request.maxOpenHouseDate)
+      )
+   );
+
+   const geo = createGeoFilter(request);
+   add(geo !== null, ({ normalized }) => geo?.(normalized.map) ?? true);
+
+   const search = request.search ?? "";
+   add(defined(search), ({ listing }) => {
+      const fields = request.searchFields?.split(",").map((field) => field.trim()) ?? DEFAULT_SEARCH_FIELDS;
+      const haystack = fields
+         .map((field) => getPath(listing, field))
+         .filter((value) => value !== null && value !== undefined)
+         .join(" ")
+         .toLowerCase();
+      return search.toLowerCase().split(/\s+/).filter(Boolean).every((token) => haystack.includes(token));
+   });
+
+   return result;
+};
+
+export const matches = (request: Listings.SearchRequest, entry: Entry): boolean => {
+   const checks = predicates(request);
+   return request.operator === "OR" && checks.length
+      ? checks.some((check) => check(entry))
+      : checks.every((check) => check(entry));
+};
+
+type Key = (entry: Entry) => number | null;
+
+const time = (date: Date | null | undefined) => date?.getTime() ?? null;
+
+const sortKeys = (request: Listings.SearchRequest): Partial<Record<string, Key>> => {
+   const center = requestCenter(request);
+   return {
+      createdOn: ({ normalized }) => time(normalized.listDate),
+      updatedOn: ({ normalized }) => time(normalized.updatedOn),
+      repliersUpdatedOn: ({ normalized }) => time(normalized.timestamps.repliersUpdatedOn),
+      soldDate: ({ normalized }) => time(normalized.soldDate),
+      soldPrice: ({ normalized }) => normalized.soldPrice,
+      listPrice: ({ normalized }) => normalized.listPrice,
+      sqft: ({ normalized }) => normalized.details.sqft ?? normalized.details.sqftRange?.min ?? null,
+      beds: ({ normalized }) => normalized.details.numBedrooms,
+      baths: ({ normalized }) => normalized.details.numBathrooms,
+      yearBuilt: ({ normalized }) => normalized.details.yearBuilt,
+      distance: ({ normalized }) => (normalized.map && center ? distance(center, normalized.map) : null),
+      status: ({ normalized }) => (normalized.status === "A" ? 0 : normalized.status === "U" ? 1 : null),
+      listDate: ({ normalized }) => time(normalized.listDate),
+   };
+};
+
+/** missing values always sort last, whatever the direction */
+const compareBy = (key: Key, direction: 1 | -1) => (a: Entry, b: Entry) => {
+   const left = key(a);
+   const right = key(b);
+   if (left === right) return 0;
+   if (left === null) return 1;
+   if (right === null) return -1;
+   return (left - right) * direction;
+};
+
+export const sort = (entries: Entry[], request: Listings.SearchRequest, random: () => number = Math.random): Entry[] => {
+   const sortBy: SortBy = request.sortBy ?? "updatedOnDesc";
+   if (sortBy === "random") {
+      const shuffled = [...entries];
+      for (let index = shuffled.length - 1; index > 0; index--) {
+         const swap = Math.floor(random() * (index + 1));
+         [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+      }
+      return shuffled;
+   }
+   const keys = sortKeys(request);
+   // e.g. statusAscListPriceDesc → [status, Asc], [listPrice, Desc]
+   // sortBy is not checked by Query.parseSearchRequest, fields the engine does not know are skipped
+   const comparators = [...sortBy.matchAll(/([a-zA-Z]+?)(Asc|Desc)/g)].flatMap(([, name, direction]) => {
+      const key = keys[name.charAt(0).toLowerCase() + name.slice(1)];
+      return key ? [compareBy(key, direction === "Asc" ? 1 : -1)] : [];
+   });
+   return [...entries].sort((a, b) => {
+      for (const compare of comparators) {
+         const result = compare(a, b);
+         if (result !== 0) return result;
+      }
+      return 0;
+   });
+};
+
+/**
+ * Offline evaluation of Listings.SearchRequest against a local dump such as toronto_listings.json.
+ * Every listing is normalized once when the engine is created, searches only filter, sort and paginate.
+ */
+export const createEngine = (listings: Listings.Listing[], options: EngineOptions = {}): Engine => {
+   const entries: Entry[] = listings.map((listing) => ({ listing, normalized: normalizeListing(listing).listing }));
+
+   const filter = (request: Listings.SearchRequest = {}) =>
+      sort(
+         entries.filter((entry) => matches(request, entry)),
+         request,
+         options.random
+      );
+
+   const search = (request: Listings.SearchRequest = {}): Listings.SearchResponse => {
+      const matched = filter(request);
+      const pageSize = Math.max(1, request.resultsPerPage ?? options.defaultResultsPerPage ?? 100);
+      const numPages = Math.ceil(matched.length / pageSize);
+      const page = Math.max(1, request.pageNum ?? 1);
+      const start = (page - 1) * pageSize;
+      const response: Listings.SearchResponse = {
+         page,
+         numPages,
+         pageSize,
+         count: matched.length,
+         listings:
+            request.listings === false
+               ? []
+               : matched
+                    .slice(start, start + pageSize)
+                    .map(({ listing }) => (request.fields ? projectFields(listing, request.fields) : listing)),
+         statistics: request.statistics
+            ? compute(matched.map(({ normalized }) => normalized), request.statistics, { now: options.now?.() })
+            : {},
+      };
+      const listings = matched.map(({ listing }) => listing);
+      if (request.aggregates?.length) response.aggregates = aggregate(listings, request.aggregates);
+      if (request.cluster || request.aggregates?.includes("map")) {
+         response.aggregates = { ...response.aggregates, map: { clusters: cluster(listings, clusterOptions(request)) } };
+      }
+      return response;
+   };
+
+   return { entries, search, filter };
+};
+
+/** one-off search, prefer createEngine when running several searches over the same dump */
+export const search = (listings: Listings.Listing[], request?: Listings.SearchRequest, options?: EngineOptions) =>
+   createEngine(listings, options).search(request);
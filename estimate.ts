@@ -1,4 +1,16 @@
 import { ApiRequest, ApiResponse, YesNo } from "./index.js";
+import * as Listings from "./listings.js";
+import { normalizeListing } from "./normalize.js";
+import { ValidationIssue } from "./validate.js";
+
+/** one comma-separated string (`"Forced Air, Gas"`) or a list (`["Forced Air", "Gas"]`), see `asList` */
+export type ListValue<T extends string = string> = T | T[];
+
+/** the known codes are `N`, `Y` and `Restrict`, any other text is passed through */
+export type Pets = ListValue<"N" | "Y" | "Restrict" | (string & {})>;
+
+/** a yes/no flag or a count */
+export type Fireplaces = YesNo | number;
 
 export interface Estimate {
    estimateId: number;
@@ -17,8 +29,7 @@ export interface Estimate {
          streetSuffix: string;
          zip: string;
       };
-      //TODO: this must be extended
-      details: Record<string, unknown>;
+      details: AddDetails;
       taxes: {
          annualAmount: number;
       };
@@ -26,8 +37,7 @@ export interface Estimate {
          latitude: number;
          longitude: number;
       };
-      //TODO: this must be extended
-      condominium: Record<string, unknown>;
+      condominium: AddCondominium;
       lot: {
          acres: string;
          depth: string;
@@ -53,12 +63,34 @@ export interface AddCondominium {
       taxesIncl?: YesNo;
       waterIncl?: YesNo;
    };
-   parkingType?: string; // add | array
-   //TODO: pets depend on the board so must be string OR ARRAY
-   pets?: "N" | "Restrict";
+   parkingType?: ListValue;
+   pets?: Pets;
    stories?: number;
 }
 
+export interface AddDetails {
+   basement1?: ListValue;
+   basement2?: string;
+   driveway?: string;
+   exteriorConstruction1?: ListValue;
+   exteriorConstruction2?: string;
+   extras: string;
+   garage?: string;
+   heating?: ListValue;
+   numBathrooms: number;
+   numBathroomsPlus?: number;
+   numBedrooms: number;
+   numBedroomsPlus?: number;
+   numFireplaces?: Fireplaces;
+   numGarageSpaces?: number;
+   numParkingSpaces?: number;
+   propertyType: string;
+   sqft: number;
+   style: string;
+   swimmingPool?: ListValue;
+   yearBuilt?: string;
+}
+
 export interface AddRequest extends ApiRequest {
    clientId?: number;
    boardId?: number;
@@ -71,28 +103,7 @@ export interface AddRequest extends ApiRequest {
       zip: string;
    };
    condominium?: AddCondominium;
-   details?: {
-      basement1?: string; // TODO: add | array
-      basement2?: string;
-      driveway?: string;
-      exteriorConstruction1?: string; // TODO: add | array
-      exteriorConstruction2?: string;
-      extras: string;
-      garage?: string;
-      heating?: string; // TODO: add | array
-      numBathrooms: number;
-      numBathroomsPlus?: number;
-      numBedrooms: number;
-      numBedroomsPlus?: number;
-      numFireplaces?: YesNo; // TODO: add | number
-      numGarageSpaces?: number;
-      numParkingSpaces?: number;
-      propertyType: string;
-      sqft: number;
-      style: string;
-      swimmingPool?: string; //TODO: add | array
-      yearBuilt?: string;
-   };
+   details?: AddDetails;
    lot?: {
       acres?: string;
       depth?: number;
@@ -143,3 +154,119 @@ export interface PatchRequest extends Omit<AddRequest, "boardId"> {
    estimateId: number;
 }
 export interface PatchResponse extends GetResponse { }
+
+export const asList = <T extends string>(value: ListValue<T> | null | undefined): T[] => {
+   if (value === null || value === undefined) return [];
+   return (Array.isArray(value) ? value : value.split(",")).map((item) => item.trim() as T).filter(Boolean);
+};
+
+export interface FromListingOptions extends Pick<AddRequest, "clientId" | "sendEmailNow" | "sendEmailMonthly"> {}
+
+export interface FromListingResult {
+   /** without `address` or `details` when the listing lacks one of their required fields */
+   request: AddRequest;
+   /** the required fields the listing lacks, the estimate service rejects the request until they are filled */
+   issues: ValidationIssue[];
+}
+
+const defined = <T extends object>(value: T): T => {
+   for (const key of Object.keys(value) as Array<keyof T>) {
+      if (value[key] === undefined || value[key] === null) delete value[key];
+   }
+   return value;
+};
+
+/**
+ * The estimate request for a listing. Sizes known only as a range (`sqftRange`) use the middle of the range.
+ * Feed listings often lack a required field, they are reported in `issues` instead of failing.
+ */
+export const fromListing = (listing: Listings.Listing, options: FromListingOptions = {}): FromListingResult => {
+   const { listing: normalized } = normalizeListing(listing);
+   const { details, address, condominium, lot } = normalized;
+   const range = details.sqftRange;
+   const sqft = details.sqft ?? (range && range.min !== null && range.max !== null ? (range.min + range.max) / 2 : null);
+   const required = {
+      "details.numBathrooms": details.numBathrooms,
+      "details.numBedrooms": details.numBedrooms,
+      "details.sqft": sqft,
+      "details.propertyType": details.propertyType,
+      "details.style": details.style,
+      "address.city": address.city,
+      "address.streetName": address.streetName,
+      "address.streetNumber": address.streetNumber,
+   };
+   const issues: ValidationIssue[] = Object.entries(required)
+      .filter(([, value]) => value === null || value === undefined || value === "")
+      .map(([path]) => ({ path, message: "is required" }));
+
+   const raw = listing.details ?? {};
+   const request: AddRequest = defined({
+      ...options,
+      boardId: listing.boardId,
+      address: defined({
+         city: address.city!,
+         streetName: address.streetName!,
+         streetNumber: address.streetNumber!,
+         streetSuffix: address.streetSuffix ?? "",
+         unitNumber: address.unitNumber ?? undefined,
+         zip: address.zip ?? "",
+      }),
+      details: defined({
+         basement1: details.basement1 ?? undefined,
+         basement2: details.basement2 ?? undefined,
+         driveway: details.driveway ?? undefined,
+         exteriorConstruction1: details.exteriorConstruction1 ?? undefined,
+         exteriorConstruction2: details.exteriorConstruction2 ?? undefined,
+         extras: details.extras ?? "",
+         garage: details.garage ?? undefined,
+         heating: details.heating ?? undefined,
+         numBathrooms: details.numBathrooms!,
+         numBathroomsPlus: details.numBathroomsPlus ?? undefined,
+         numBedrooms: details.numBedrooms!,
+         numBedroomsPlus: details.numBedroomsPlus ?? undefined,
+         // "Y" and "N" do not normalize to a count
+         numFireplaces:
+            details.numFireplaces ??
+            (raw.numFireplaces === "Y" || raw.numFireplaces === "N" ? (raw.numFireplaces as YesNo) : undefined),
+         numGarageSpaces: details.numGarageSpaces ?? undefined,
+         numParkingSpaces: details.numParkingSpaces ?? undefined,
+         propertyType: details.propertyType!,
+         sqft: sqft!,
+         style: details.style!,
+         swimmingPool: details.swimmingPool ?? undefined,
+         yearBuilt: details.yearBuilt === null ? undefined : String(details.yearBuilt),
+      }),
+      lot:
+         lot.acres === null && lot.depth === null && lot.width === null
+            ? undefined
+            : defined({
+                 acres: lot.acres === null ? undefined : String(lot.acres),
+                 depth: lot.depth ?? undefined,
+                 width: lot.width ?? undefined,
+              }),
+      taxes: normalized.taxes.annualAmount === null ? undefined : { annualAmount: normalized.taxes.annualAmount },
+   });
+   if (condominium) {
+      const flag = (value: boolean | null): YesNo | undefined => (value === true ? "Y" : value === false ? "N" : undefined);
+      request.condominium = defined({
+         ammenities: condominium.ammenities.length ? condominium.ammenities : undefined,
+         exposure: condominium.exposure ?? undefined,
+         fees: defined({
+            cableIncl: flag(condominium.fees.cableIncl),
+            heatIncl: flag(condominium.fees.heatIncl),
+            hydroIncl: flag(condominium.fees.hydroIncl),
+            maintenance: condominium.fees.maintenance ?? undefined,
+            parkingIncl: flag(condominium.fees.parkingIncl),
+            taxesIncl: flag(condominium.fees.taxesIncl),
+            waterIncl: flag(condominium.fees.waterIncl),
+         }),
+         parkingType: condominium.parkingType ?? undefined,
+         pets: condominium.pets ?? undefined,
+         stories: condominium.stories ?? undefined,
+      });
+   }
+   for (const group of ["address", "details"] as const) {
+      if (issues.some(({ path }) => path.startsWith(`${group}.`))) delete request[group];
+   }
+   return { request, issues };
+};
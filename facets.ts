@@ -0,0 +1,69 @@
+import { Aggregates } from "./index.js";
+import * as Listings from "./listings.js";
+import { getPath } from "./normalize.js";
+
+/** the feed does not always use the spelling of the aggregate path */
+const FALLBACK_PATHS: Partial<Record<Aggregates, string[]>> = {
+   "condominium.ammenities": ["condominium.amenities"],
+   "nearby.ammenities": ["nearby.amenities"],
+   "details.exteriorConstruction": ["details.exteriorConstruction1"],
+};
+
+const read = (listing: Listings.Listing, path: Aggregates): unknown => {
+   let value = getPath(listing, path);
+   for (const fallback of FALLBACK_PATHS[path] ?? []) {
+      if (value !== undefined && value !== null) break;
+      value = getPath(listing, fallback);
+   }
+   return value;
+};
+
+const keysOf = (value: unknown): string[] => {
+   if (value === null || value === undefined) return [];
+   if (Array.isArray(value)) return value.flatMap(keysOf);
+   if (typeof value === "object") return [];
+   const key = String(value).trim();
+   return key ? [key] : [];
+};
+
+export interface FacetCount {
+   value: string;
+   count: number;
+}
+
+/**
+ * The counts of one aggregate path, largest first, then by value.
+ * Array values (e.g. condominium.ammenities) count once per element, empty values are not counted.
+ */
+export const facetEntries = (listings: Listings.Listing[], path: Aggregates): FacetCount[] => {
+   const counts = new Map<string, number>();
+   for (const listing of listings) {
+      for (const key of new Set(keysOf(read(listing, path)))) counts.set(key, (counts.get(key) ?? 0) + 1);
+   }
+   return [...counts.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((left, right) => right.count - left.count || left.value.localeCompare(right.value));
+};
+
+/**
+ * Same counts as facetEntries, in the object shape of the API.
+ * Objects put integer-like keys first in ascending order (`details.numBedrooms`), so use facetEntries for the ranking.
+ */
+export const facet = (listings: Listings.Listing[], path: Aggregates): Listings.FacetCounts =>
+   Object.fromEntries(facetEntries(listings, path).map(({ value, count }) => [value, count]));
+
+/**
+ * Local implementation of SearchRequest.aggregates: facets for every requested path, nested the way the API returns them.
+ * "map" is produced by Cluster.cluster and is skipped here.
+ */
+export const aggregate = (listings: Listings.Listing[], paths: Aggregates[]): Listings.Aggregations => {
+   const result: Record<string, unknown> = {};
+   for (const path of new Set(paths)) {
+      if (path === "map") continue;
+      const keys = path.split(".");
+      let target = result;
+      for (const key of keys.slice(0, -1)) target = (target[key] ??= {}) as Record<string, unknown>;
+      target[keys[keys.length - 1]] = facet(listings, path);
+   }
+   return result as Listings.Aggregations;
+};
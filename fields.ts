@@ -0,0 +1,88 @@
+import { KnownKeys } from "./index.js";
+import * as Listings from "./listings.js";
+import { getPath } from "./normalize.js";
+
+declare const selected: unique symbol;
+
+/** comma-separated field list that carries the selected paths in its type */
+export type Selection<Path extends string> = string & { readonly [selected]: Path };
+
+type Leaf = string | number | boolean | bigint | symbol | null | undefined | readonly unknown[];
+
+type Depth = [never, 0, 1, 2, 3];
+
+/** dotted paths to the known fields of T, nested up to four levels */
+export type FieldPath<T, Level extends number = 4> = [Level] extends [never]
+   ? never
+   : {
+        [K in KnownKeys<T> & string]: NonNullable<T[K]> extends Leaf
+           ? K
+           : K | `${K}.${FieldPath<NonNullable<T[K]>, Depth[Level]>}`;
+     }[KnownKeys<T> & string];
+
+export type ListingPath = FieldPath<Listings.Listing>;
+
+type Head<Path extends string> = Path extends `${infer Key}.${string}` ? Key : Path;
+type Rest<Path extends string, Key extends string> = Path extends `${Key}.${infer Tail}` ? Tail : never;
+
+/** T reduced to the selected paths, selecting a parent keeps all of it */
+export type Projection<T, Path extends string> = {
+   [K in Head<Path> & keyof T]-?: K extends Path
+      ? Exclude<T[K], undefined>
+      : Projection<NonNullable<T[K]>, Rest<Path, K & string>>;
+};
+
+export type ProjectedListing<Path extends string> = Projection<Listings.Listing, Path>;
+
+export type ProjectedSearchResponse<Path extends string> = Pick<
+   Listings.SearchResponse,
+   Exclude<KnownKeys<Listings.SearchResponse>, "listings">
+> & {
+   listings: ProjectedListing<Path>[];
+};
+
+/** the paths of a selection, trimmed and without duplicates */
+export const parse = (fields: string): string[] => [
+   ...new Set(fields.split(",").map((field) => field.trim()).filter(Boolean)),
+];
+
+/**
+ * A typed `fields` selection.
+ *
+ * `select("mlsNumber", "address.city")` builds the comma-separated SearchRequest.fields / ListingRequest.fields
+ * value and remembers the paths in its type, so the listings of the response can be typed as
+ * `Projection<Listing, "mlsNumber" | "address.city">`: the selected fields are no longer optional,
+ * everything else is gone. A selected field can still be `null` when the type allows it.
+ * Paths stop at arrays and records, `rooms` can be selected but `rooms.description` cannot.
+ */
+export const select = <Path extends ListingPath>(...paths: Path[]): Selection<Path> =>
+   parse(paths.join(",")).join(",") as Selection<Path>;
+
+const projectPaths = (listing: Listings.Listing, paths: readonly string[]) => {
+   const result: Record<string, unknown> = {};
+   for (const path of paths) {
+      const value = getPath(listing, path);
+      if (value === undefined) continue;
+      const keys = path.split(".");
+      let target = result;
+      for (const key of keys.slice(0, -1)) {
+         target = (target[key] ??= {}) as Record<string, unknown>;
+      }
+      target[keys[keys.length - 1]] = value;
+   }
+   return result;
+};
+
+/**
+ * Applies a selection to a local listing, the way the API does.
+ * Fields missing from the listing are missing from the projection too, whatever the type says.
+ */
+export const project = <Path extends ListingPath>(
+   listing: Listings.Listing,
+   fields: Selection<Path> | readonly Path[]
+): ProjectedListing<Path> =>
+   projectPaths(listing, typeof fields === "string" ? parse(fields) : fields) as ProjectedListing<Path>;
+
+/** same as project, for an untyped comma-separated field list such as SearchRequest.clusterFields */
+export const projectFields = (listing: Listings.Listing, fields: string): Partial<Listings.Listing> =>
+   projectPaths(listing, parse(fields)) as Partial<Listings.Listing>;
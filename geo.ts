@@ -0,0 +1,198 @@
+import { Class, Operator } from "./index.js";
+import * as Listings from "./listings.js";
+import { parseNumber } from "./normalize.js";
+
+/**
+ * Coordinates follow the API (and GeoJSON) order: `[longitude, latitude]`.
+ * That is the order of SearchRequest.map, LocationCoordinates and Listing.map.point,
+ * while Listing.map.latitude / longitude carry the same point as named fields.
+ */
+export type Position = [longitude: number, latitude: number];
+export type Ring = Position[];
+
+export interface Point {
+   latitude: number;
+   longitude: number;
+}
+
+export interface BoundingBox {
+   minLatitude: number;
+   minLongitude: number;
+   maxLatitude: number;
+   maxLongitude: number;
+}
+
+export interface GeoRequest {
+   map?: Listings.SearchRequest["map"];
+   /** how the polygons of `map` are combined @defaultValue `"OR"` */
+   mapOperator?: Operator;
+   lat?: string | number;
+   long?: string | number;
+   /** kilometres around lat/long */
+   radius?: number;
+}
+
+export type PointFilter = (point: Point | null) => boolean;
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+/** great-circle distance in kilometres */
+export const haversine = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+   const rad = Math.PI / 180;
+   const dLat = (lat2 - lat1) * rad;
+   const dLng = (lng2 - lng1) * rad;
+   const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+   return EARTH_RADIUS_KM * 2 * Math.asin(Math.sqrt(a));
+};
+
+export const distance = (from: Point, to: Point): number =>
+   haversine(from.latitude, from.longitude, to.latitude, to.longitude);
+
+/** reads Listing.map, falling back to the `POINT (lng lat)` string */
+export const listingPoint = (listing: Pick<Listings.Listing, "map">): Point | null => {
+   const latitude = parseNumber(listing.map?.latitude);
+   const longitude = parseNumber(listing.map?.longitude);
+   if (typeof latitude === "number" && typeof longitude === "number") return { latitude, longitude };
+   const match = /POINT\s*\(\s*(-?[\d.]+)\s+(-?[\d.]+)\s*\)/i.exec(listing.map?.point ?? "");
+   return match ? { longitude: Number(match[1]), latitude: Number(match[2]) } : null;
+};
+
+export const boundingBox = (positions: Iterable<Position>): BoundingBox => {
+   const box: BoundingBox = {
+      minLatitude: Infinity,
+      minLongitude: Infinity,
+      maxLatitude: -Infinity,
+      maxLongitude: -Infinity,
+   };
+   for (const [longitude, latitude] of positions) {
+      box.minLatitude = Math.min(box.minLatitude, latitude);
+      box.maxLatitude = Math.max(box.maxLatitude, latitude);
+      box.minLongitude = Math.min(box.minLongitude, longitude);
+      box.maxLongitude = Math.max(box.maxLongitude, longitude);
+   }
+   return box;
+};
+
+export const inBoundingBox = (box: BoundingBox, point: Point): boolean =>
+   point.latitude >= box.minLatitude &&
+   point.latitude <= box.maxLatitude &&
+   point.longitude >= box.minLongitude &&
+   point.longitude <= box.maxLongitude;
+
+/** ray casting; points exactly on an edge may fall either way */
+export const pointInRing = (point: Point, ring: Ring): boolean => {
+   let inside = false;
+   for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      const crosses =
+         yi > point.latitude !== yj > point.latitude &&
+         point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi;
+      if (crosses) inside = !inside;
+   }
+   return inside;
+};
+
+/**
+ * Even-odd test across every ring, so a ring inside another one is a hole
+ * and disjoint rings are parts of a multi-polygon. Used for LocationCoordinates.
+ */
+export const pointInShape = (point: Point, rings: Ring[]): boolean =>
+   rings.reduce((inside, ring) => (pointInRing(point, ring) ? !inside : inside), false);
+
+/**
+ * Builds a filter for SearchRequest.map: each entry is one polygon, combined with `operator`.
+ * Bounding boxes are computed once and checked before the polygons.
+ */
+export const createMapFilter = (map: Ring[], operator: Operator = "OR"): PointFilter => {
+   const polygons = map.map((ring) => ({ ring, box: boundingBox(ring) }));
+   const test = ({ ring, box }: typeof polygons[number], point: Point) =>
+      inBoundingBox(box, point) && pointInRing(point, ring);
+   return (point) => {
+      if (!point) return false;
+      return operator === "AND"
+         ? polygons.every((polygon) => test(polygon, point))
+         : polygons.some((polygon) => test(polygon, point));
+   };
+};
+
+/** box that contains the whole circle, used to skip haversine for far away points */
+export const radiusBoundingBox = (center: Point, radius: number): BoundingBox => {
+   const latitudeDelta = radius / KM_PER_DEGREE;
+   const cos = Math.cos((center.latitude * Math.PI) / 180);
+   const longitudeDelta = cos > 1e-9 ? latitudeDelta / cos : 180;
+   return {
+      minLatitude: center.latitude - latitudeDelta,
+      maxLatitude: center.latitude + latitudeDelta,
+      minLongitude: center.longitude - longitudeDelta,
+      maxLongitude: center.longitude + longitudeDelta,
+   };
+};
+
+export const createRadiusFilter = (center: Point, radius: number): PointFilter => {
+   const box = radiusBoundingBox(center, radius);
+   return (point) => !!point && inBoundingBox(box, point) && distance(center, point) <= radius;
+};
+
+export const requestCenter = (request: GeoRequest): Point | null => {
+   const latitude = parseNumber(request.lat);
+   const longitude = parseNumber(request.long);
+   return typeof latitude === "number" && typeof longitude === "number" ? { latitude, longitude } : null;
+};
+
+/**
+ * Combined filter for the geo params of a SearchRequest, or `null` when the request has none.
+ * `radius` needs `lat` and `long`; both map and radius must match when both are given.
+ */
+export const createGeoFilter = (request: GeoRequest): PointFilter | null => {
+   const filters: PointFilter[] = [];
+   if (request.map?.length) filters.push(createMapFilter(request.map, request.mapOperator));
+   const center = requestCenter(request);
+   if (center && request.radius !== undefined && request.radius !== null) {
+      filters.push(createRadiusFilter(center, request.radius));
+   }
+   if (!filters.length) return null;
+   return (point) => filters.every((filter) => filter(point));
+};
+
+export const filterListings = <T extends Pick<Listings.Listing, "map">>(listings: T[], request: GeoRequest): T[] => {
+   const filter = createGeoFilter(request);
+   return filter ? listings.filter((listing) => filter(listingPoint(listing))) : listings;
+};
+
+export interface LocationMatch {
+   boardId: number;
+   class: Class;
+   area: string;
+   city: Listings.City;
+   neighborhood: Listings.Neighborhood;
+}
+
+/**
+ * Finds the neighborhood polygon of a LocationsResponse that contains the point.
+ * Neighborhoods without coordinates are skipped.
+ */
+export const locate = (point: Point, locations: Listings.LocationsResponse): LocationMatch | null => {
+   for (const board of locations.boards) {
+      for (const classWithAreas of board.classes) {
+         for (const area of classWithAreas.areas) {
+            for (const city of area.cities) {
+               for (const neighborhood of city.neighborhoods) {
+                  const rings = neighborhood.coordinates;
+                  if (!rings?.length || !inBoundingBox(boundingBox(rings.flat()), point)) continue;
+                  if (pointInShape(point, rings)) {
+                     return { boardId: board.boardId, class: classWithAreas.name, area: area.name, city, neighborhood };
+                  }
+               }
+            }
+         }
+      }
+   }
+   return null;
+};
+
+export const locateListing = (listing: Pick<Listings.Listing, "map">, locations: Listings.LocationsResponse) => {
+   const point = listingPoint(listing);
+   return point ? locate(point, locations) : null;
+};
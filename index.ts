@@ -1,12 +1,36 @@
+export * as Alerts from './alerts.js';
+export * as Api from "./api.js";
+export * as Cards from './cards.js';
 export * as Clients from "./clients.js";
+export * as Cluster from './cluster.js';
+export * as Comps from './comps.js';
+export * as Diff from './diff.js';
+export * as Engine from './engine.js';
 export * as Estimate from './estimate.js';
+export * as Facets from './facets.js';
 export * as Favorites from './favorites.js';
+export * as Fields from './fields.js';
+export * as Geo from './geo.js';
 export * as Listings from './listings.js';
 export * as Messages from './messages.js';
+export * as Normalize from './normalize.js';
+export * as Query from './query.js';
+export * as Rank from './rank.js';
+export * as Report from './report.js';
 export * as Searches from './searches.js';
+export * as Stats from './stats.js';
+export * as Storage from './storage.js';
+export * as Swipe from './swipe.js';
+export * as Validate from './validate.js';
+export * as Valuation from './valuation.js';
 
 export type Extend<T, R> = Omit<T, keyof R> & R;
 
+/** keys of T without the index signature inherited from Record<string, unknown> */
+export type KnownKeys<T> = keyof {
+   [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+};
+
 export interface ApiRequest extends Record<string, unknown> {}
 export interface ApiResponse extends Record<string, unknown> {}
 export interface ApiRequestBody extends Record<string, unknown> {}
@@ -33,7 +57,7 @@ export const AggregatesValues = [
    "permissions.displayAddressOnInternet",
    "details.propertyType",
    "details.style",
-   "detail.numBedrooms",
+   "details.numBedrooms",
    "details.numBathrooms",
    "details.businessType",
    "details.businessSubType",
@@ -142,7 +166,6 @@ export const SortByValues = [
 ] as const;
 export type SortBy = typeof SortByValues[number];
 
-// TODO: how do we add grp-{x}-days here??
 export const StatisticsValues = [
    "avg-daysOnMarket",
    "sum-daysOnMarket",
@@ -174,6 +197,16 @@ export const StatisticsValues = [
 ] as const;
 export type Statistics = typeof StatisticsValues[number];
 
+/** rolling windows of N days, e.g. `grp-30-days`, which cannot be listed in StatisticsValues */
+export type RollingStatistics = `grp-${number}-days`;
+export type StatisticsParam = Statistics | RollingStatistics;
+
+/**
+ * Comma-separated StatisticsParam values as sent to the API, e.g. `"med-soldPrice,avg-soldPrice,grp-yr"`.
+ * Only the first entry is checked by the compiler, use Stats.buildStatistics to get a fully checked value.
+ */
+export type StatisticsList = StatisticsParam | `${StatisticsParam},${string}`;
+
 export const StatusValues = [
    "A",
    "U"
@@ -8,6 +8,7 @@ import {
    Operator,
    SimilarSortBy,
    SortBy,
+   StatisticsList,
    Status,
    Type,
    YesNo,
@@ -464,11 +465,11 @@ export interface SearchRequest extends ApiRequest {
    sortBy?: SortBy;
    sqft?: string[];
    /** 
-    * Coma-separated string of Statistics values but we cannot type it properly in TS now
+    * Coma-separated string of Statistics values, see Stats.buildStatistics
     * 
     *  @example: "med-soldPrice,avg-soldPrice,grp-yr"
     */
-   statistics?: string;
+   statistics?: StatisticsList;
    status?: Status[];
    streetDirection?: StreetDirection[];
    streetName?: string;
@@ -505,6 +506,9 @@ export interface BaseStat {
    yr?:  Record<string, RangeStat>
 }
 
+/** only the groupings that were requested (grp-day, grp-{N}-days) are present */
+export type RollingStat = Partial<Record<RollingPeriodName<`${number}`>, RollingPeriod>> & BaseStat;
+
 export interface SearchResponse extends ApiResponse {
    page: number;
    numPages: number;
@@ -527,9 +531,10 @@ export interface SearchResponse extends ApiResponse {
          mth: Record<string, { count: number }>;
          yr: Record<string, { count: number }>;
       };
-      soldPrice?: Record<RollingPeriodName, RollingPeriod> & BaseStat;
-      listPrice?: Record<RollingPeriodName, RollingPeriod> & BaseStat;
-      daysOnMarket?: Record<RollingPeriodName, RollingPeriod> & BaseStat;
+      soldPrice?: RollingStat;
+      listPrice?: RollingStat;
+      daysOnMarket?: RollingStat;
+      tax?: RollingStat;
       sqft?: {
          avgPriceLow: number;
          avgPriceHigh: number;
@@ -539,6 +544,50 @@ export interface SearchResponse extends ApiResponse {
          }>
       };
    };
+   aggregates?: Aggregations;
+}
+
+/** facet value → number of listings with that value */
+export type FacetCounts = Record<string, number>;
+
+type FacetHead<Path extends string> = Path extends `${infer Head}.${string}` ? Head : Path;
+type FacetTail<Path extends string, Head extends string> = Path extends `${Head}.${infer Tail}` ? Tail : never;
+
+/** nests dotted Aggregates paths, e.g. "address.city" → { address?: { city?: FacetCounts } } */
+export type FacetTree<Path extends string> = {
+   [Head in FacetHead<Path>]?: [FacetTail<Path, Head>] extends [never]
+      ? FacetCounts
+      : FacetTree<FacetTail<Path, Head>>;
+};
+
+export type Aggregations = FacetTree<Exclude<Aggregates, "map">> & {
+   /** present when the request has `cluster: true` */
+   map?: {
+      clusters: Array<Cluster>;
+   };
+};
+
+export interface ClusterBounds {
+   topLeft: Location;
+   bottomRight: Location;
+}
+
+export interface Cluster {
+   /** geohash cell of the cluster, its length is the clusterPrecision */
+   geohash: string;
+   count: number;
+   /** centroid of the listings inside the cluster */
+   location: Location;
+   /** bounds of the listings inside the cluster, not of the geohash cell */
+   bounds: ClusterBounds;
+   /** only for single-listing clusters, contains the fields listed in clusterFields */
+   listing?: Partial<Listing>;
+   /** present when the request has `clusterStatistics: true` */
+   statistics?: {
+      listPrice?: BaseStat;
+      soldPrice?: BaseStat;
+      daysOnMarket?: BaseStat;
+   };
 }
 
 export interface SimilarRequest extends ApiRequest {
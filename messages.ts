@@ -1,15 +1,277 @@
 import { ApiRequest, ApiResponse } from "./index.js";
+import { Storage, copy, createLock, memoryStorage } from "./storage.js";
+
+export type Sender = "agent" | "client";
+/** where an agent message is pushed, on top of the in-app thread */
+export type Channel = "email" | "sms" | "whatsapp";
+
+export interface Content {
+   listings?: string[];
+   searches?: number[];
+   message?: string;
+   links?: string[];
+   pictures?: string[];
+}
 
 export interface SendRequest extends ApiRequest {
-   sender: "agent" | "client";
+   sender: Sender;
+   agentId: number;
+   clientId: number;
+   content: Content;
+}
+
+export type DeliveryStatus = "pending" | "sent" | "delivered" | "failed";
+
+export interface Delivery {
+   channel: Channel;
+   status: DeliveryStatus;
+   /** ISO timestamp of the last status change */
+   updatedOn: string;
+   /** why the delivery failed */
+   error?: string;
+}
+
+export interface Message {
+   messageId: number;
+   threadId: string;
+   sender: Sender;
+   agentId: number;
+   clientId: number;
+   content: Content;
+   sentOn: string;
+   /** when the recipient read it, `null` while unread */
+   readOn: string | null;
+   /** one per channel the message was pushed to, empty for messages from the client */
+   deliveries: Delivery[];
+}
+
+export interface SendResponse extends ApiResponse, Message {}
+
+/** the conversation of one agent with one client */
+export interface Thread {
+   threadId: string;
    agentId: number;
    clientId: number;
-   content: Partial<{
-      listings: string[];
-      searches: number[];
-      message: string;
-      links: string[];
-      pictures: string[];
-   }>;
+   startedOn: string;
+   lastMessageOn: string;
+   messageCount: number;
+   /** messages each side has not read yet */
+   unread: Record<Sender, number>;
+}
+
+export interface HistoryRequest extends ApiRequest {
+   agentId: number;
+   clientId: number;
+   /** only messages sent before this ISO timestamp, to page back from a known message */
+   before?: string;
+   pageNum?: number;
+   /** @defaultValue `50` */
+   resultsPerPage?: number;
+}
+
+export interface HistoryResponse extends ApiResponse {
+   page: number;
+   numPages: number;
+   pageSize: number;
+   count: number;
+   /** `null` when the agent and the client never exchanged a message */
+   thread: Thread | null;
+   /** newest first */
+   messages: Message[];
+}
+
+/** a listing or saved search the agent already sent to the client */
+export interface SentItem<T> {
+   item: T;
+   messageId: number;
+   /** first time it was sent */
+   sentOn: string;
+   /** how many messages contained it */
+   times: number;
+}
+
+export interface StoreState {
+   version: 1;
+   nextMessageId: number;
+   messages: Message[];
 }
-export interface SendResponse extends ApiResponse {}
+
+export interface StoreDependencies {
+   now?: () => Date;
+}
+
+export interface Store {
+   /** agent messages are queued as pending on each of the channels, see Alerts.channels */
+   send(request: SendRequest, channels?: Channel[]): Promise<SendResponse>;
+   updateDelivery(messageId: number, channel: Channel, status: DeliveryStatus, error?: string): Promise<Message>;
+   /** marks every message the reader received in the thread as read, returns how many changed */
+   markRead(agentId: number, clientId: number, reader: Sender): Promise<number>;
+   /** threads of the agent, most recent first */
+   threads(agentId: number): Promise<Thread[]>;
+   history(request: HistoryRequest): Promise<HistoryResponse>;
+   /** listings the agent sent to the client, in the order they were first sent */
+   sentListings(agentId: number, clientId: number): Promise<SentItem<string>[]>;
+   sentSearches(agentId: number, clientId: number): Promise<SentItem<number>[]>;
+   /** the listings the agent has not sent to the client yet */
+   unsent(agentId: number, clientId: number, mlsNumbers: string[]): Promise<string[]>;
+}
+
+export class StoreError extends Error {
+   constructor(message: string) {
+      super(message);
+      this.name = "StoreError";
+   }
+}
+
+export const threadKey = (agentId: number, clientId: number): string => `${agentId}:${clientId}`;
+
+const recipient = (sender: Sender): Sender => (sender === "agent" ? "client" : "agent");
+
+const summarizeThread = (messages: Message[]): Thread => {
+   const [first] = messages;
+   const unread: Record<Sender, number> = { agent: 0, client: 0 };
+   for (const message of messages) if (message.readOn === null) unread[recipient(message.sender)]++;
+   return {
+      threadId: first.threadId,
+      agentId: first.agentId,
+      clientId: first.clientId,
+      startedOn: first.sentOn,
+      lastMessageOn: messages[messages.length - 1].sentOn,
+      messageCount: messages.length,
+      unread,
+   };
+};
+
+const sentItems = <T>(messages: Message[], pick: (content: Content) => T[] | undefined): SentItem<T>[] => {
+   const items = new Map<T, SentItem<T>>();
+   for (const message of messages) {
+      if (message.sender !== "agent") continue;
+      for (const item of new Set(pick(message.content) ?? [])) {
+         const sent = items.get(item);
+         if (sent) sent.times++;
+         else items.set(item, { item, messageId: message.messageId, sentOn: message.sentOn, times: 1 });
+      }
+   }
+   return [...items.values()];
+};
+
+/**
+ * Local message store, for offline demos and tests.
+ *
+ * Threads are not stored, they are derived from the messages of each agent/client pair.
+ * A message is read by its recipient: the client for agent messages, the agent for client messages.
+ * Operations run one at a time in call order, so concurrent sends never share a messageId.
+ */
+export const createStore = (
+   storage: Storage<StoreState> = memoryStorage<StoreState>(),
+   dependencies: StoreDependencies = {}
+): Store => {
+   const now = dependencies.now ?? (() => new Date());
+   // writes read the whole state and write it back, they must not interleave; reads wait for earlier writes
+   const exclusive = createLock();
+   const load = async (): Promise<StoreState> =>
+      (await storage.read()) ?? { version: 1, nextMessageId: 1, messages: [] };
+   const current = () => exclusive(load);
+   // messages are appended in time order, so a thread is always sorted oldest first
+   const thread = (state: StoreState, agentId: number, clientId: number) =>
+      state.messages.filter((message) => message.threadId === threadKey(agentId, clientId));
+
+   return {
+      send: (request, channels = []) =>
+         exclusive(async () => {
+            const { sender, agentId, clientId, content } = request;
+            if (!Object.values(content).some((value) => (Array.isArray(value) ? value.length : value))) {
+               throw new StoreError("content is empty");
+            }
+            const state = await load();
+            const sentOn = now().toISOString();
+            const message: Message = {
+               messageId: state.nextMessageId++,
+               threadId: threadKey(agentId, clientId),
+               sender,
+               agentId,
+               clientId,
+               content: copy(content),
+               sentOn,
+               readOn: null,
+               deliveries:
+                  sender === "agent"
+                     ? [...new Set(channels)].map((channel) => ({ channel, status: "pending", updatedOn: sentOn }))
+                     : [],
+            };
+            state.messages.push(message);
+            await storage.write(state);
+            return { ...copy(message) };
+         }),
+
+      updateDelivery: (messageId, channel, status, error) =>
+         exclusive(async () => {
+            const state = await load();
+            const message = state.messages.find((item) => item.messageId === messageId);
+            if (!message) throw new StoreError(`message ${messageId} not found`);
+            const delivery = message.deliveries.find((item) => item.channel === channel);
+            if (!delivery) throw new StoreError(`message ${messageId} was not sent by ${channel}`);
+            delivery.status = status;
+            delivery.updatedOn = now().toISOString();
+            if (status === "failed" && error) delivery.error = error;
+            else delete delivery.error;
+            await storage.write(state);
+            return copy(message);
+         }),
+
+      markRead: (agentId, clientId, reader) =>
+         exclusive(async () => {
+            const state = await load();
+            const readOn = now().toISOString();
+            let changed = 0;
+            for (const message of thread(state, agentId, clientId)) {
+               if (message.readOn !== null || recipient(message.sender) !== reader) continue;
+               message.readOn = readOn;
+               changed++;
+            }
+            if (changed) await storage.write(state);
+            return changed;
+         }),
+
+      async threads(agentId) {
+         const state = await current();
+         const byThread = new Map<string, Message[]>();
+         for (const message of state.messages) {
+            if (message.agentId !== agentId) continue;
+            byThread.set(message.threadId, [...(byThread.get(message.threadId) ?? []), message]);
+         }
+         return [...byThread.values()]
+            .map(summarizeThread)
+            .sort((a, b) => b.lastMessageOn.localeCompare(a.lastMessageOn));
+      },
+
+      async history({ agentId, clientId, before, pageNum, resultsPerPage }) {
+         const messages = thread(await current(), agentId, clientId);
+         const found = messages.filter((message) => before === undefined || message.sentOn < before).reverse();
+         const pageSize = Math.max(1, resultsPerPage ?? 50);
+         const page = Math.max(1, pageNum ?? 1);
+         return {
+            page,
+            numPages: Math.ceil(found.length / pageSize),
+            pageSize,
+            count: found.length,
+            thread: messages.length ? summarizeThread(messages) : null,
+            messages: copy(found.slice((page - 1) * pageSize, page * pageSize)),
+         };
+      },
+
+      async sentListings(agentId, clientId) {
+         return sentItems(thread(await current(), agentId, clientId), (content) => content.listings);
+      },
+
+      async sentSearches(agentId, clientId) {
+         return sentItems(thread(await current(), agentId, clientId), (content) => content.searches);
+      },
+
+      async unsent(agentId, clientId, mlsNumbers) {
+         const listings = sentItems(thread(await current(), agentId, clientId), (content) => content.listings);
+         const sent = new Set(listings.map(({ item }) => item));
+         return [...new Set(mlsNumbers)].filter((mlsNumber) => !sent.has(mlsNumber));
+      },
+   };
+};
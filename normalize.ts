@@ -0,0 +1,474 @@
+import {
+   Class,
+   ClassValues,
+   Extend,
+   KnownKeys,
+   LastStatus,
+   LastStatusValues,
+   Status,
+   StatusValues,
+   Type,
+   TypeValues,
+} from "./index.js";
+import * as Listings from "./listings.js";
+import { ValidationIssue, childPath } from "./validate.js";
+
+export interface Range {
+   min: number | null;
+   max: number | null;
+}
+
+export interface Dimensions {
+   width: number;
+   depth: number;
+}
+
+const detailsNumberKeys = [
+   "numBathrooms",
+   "numBathroomsPlus",
+   "numBathroomsHalf",
+   "numBedrooms",
+   "numBedroomsPlus",
+   "numFireplaces",
+   "numGarageSpaces",
+   "numParkingSpaces",
+   "numDrivewaySpaces",
+   "numRooms",
+   "numRoomsPlus",
+   "numKitchens",
+   "numKitchensPlus",
+   "sqft",
+   "yearBuilt",
+   "HOAFee",
+   "HOAFee2",
+   "HOAFee3",
+   "parkCostMonthly",
+] as const;
+type DetailsNumberKey = typeof detailsNumberKeys[number];
+
+const detailsBooleanKeys = ["den", "familyRoom"] as const;
+type DetailsBooleanKey = typeof detailsBooleanKeys[number];
+
+type DetailsTextKey = Exclude<
+   KnownKeys<Listings.Details>,
+   DetailsNumberKey | DetailsBooleanKey | "sqftRange" | "bathrooms"
+>;
+
+export type NormalizedDetails = Pick<Listings.Details, DetailsTextKey> &
+   { [K in DetailsNumberKey]: number | null } &
+   { [K in DetailsBooleanKey]: boolean | null } & {
+      sqftRange: Range | null;
+      bathrooms: Listings.Bathroom[];
+   };
+
+export type NormalizedCondominium = Extend<
+   Listings.Condominium,
+   {
+      ammenities: string[];
+      stories: number | null;
+      ensuiteLaundry: boolean | null;
+      fees: {
+         maintenance: number | null;
+         cableIncl: boolean | null;
+         heatIncl: boolean | null;
+         hydroIncl: boolean | null;
+         parkingIncl: boolean | null;
+         taxesIncl: boolean | null;
+         waterIncl: boolean | null;
+      };
+   }
+>;
+
+export interface NormalizedLot {
+   acres: number | null;
+   depth: number | null;
+   width: number | null;
+   size: number | null;
+   squareFeet: number | null;
+   /** parsed from `lot.dimensions` when it looks like `50 x 120` */
+   dimensions: Dimensions | null;
+   measurement: string | null;
+   irregular: string | null;
+   legalDescription: string | null;
+   features: string | null;
+}
+
+export interface NormalizedOpenHouse {
+   date: Date | null;
+   startTime: Date | null;
+   endTime: Date | null;
+   type: string | null;
+   status: string | null;
+   TZ: string | null;
+}
+
+export type NormalizedTimestamps = { [K in keyof Listings.Timestamp]-?: Date | null };
+
+/** every timestamp as `null`, so keys missing from the source are still present */
+const emptyTimestamps = (): NormalizedTimestamps => ({
+   idxUpdated: null,
+   listingUpdated: null,
+   photosUpdated: null,
+   conditionalExpiryDate: null,
+   terminatedDate: null,
+   suspendedDate: null,
+   listingEntryDate: null,
+   closedDate: null,
+   unavailableDate: null,
+   expiryDate: null,
+   extensionEntryDate: null,
+   possessionDate: null,
+   repliersUpdatedOn: null,
+});
+
+export interface NormalizedMap {
+   latitude: number;
+   longitude: number;
+}
+
+/**
+ * The "V2" shape of a Listing: numbers are numbers, timestamps are Dates,
+ * YesNo flags are booleans and ranges / dimensions are parsed.
+ * A value that is missing in the source is `null`; a value that is present
+ * but cannot be parsed is `null` too and is reported in NormalizeResult.issues.
+ */
+export interface NormalizedListing {
+   mlsNumber: string | null;
+   boardId: number | null;
+   resource: string | null;
+   status: Status | null;
+   class: Class | null;
+   type: Type | null;
+   lastStatus: LastStatus | null;
+   listPrice: number | null;
+   originalPrice: number | null;
+   soldPrice: number | null;
+   /** listPrice (soldPrice once sold) divided by sqft, or by the middle of sqftRange */
+   pricePerSqft: number | null;
+   listDate: Date | null;
+   soldDate: Date | null;
+   updatedOn: Date | null;
+   daysOnMarket: number | null;
+   occupancy: string | null;
+   assignment: string | null;
+   coopCompensation: string | null;
+   address: Listings.Address;
+   map: NormalizedMap | null;
+   permissions: {
+      displayAddressOnInternet: boolean | null;
+      displayPublic: boolean | null;
+      displayInternetEntireListing: boolean | null;
+   };
+   images: string[];
+   photoCount: number;
+   details: NormalizedDetails;
+   condominium: NormalizedCondominium | null;
+   lot: NormalizedLot;
+   nearby: {
+      ammenities: string[];
+   };
+   office: {
+      brokerageName: string | null;
+   };
+   openHouse: NormalizedOpenHouse[];
+   rooms: Listings.Room[];
+   taxes: {
+      annualAmount: number | null;
+      assessmentYear: number | null;
+   };
+   timestamps: NormalizedTimestamps;
+   agents: NonNullable<Listings.Listing["agents"]>;
+   duplicates: string[];
+   /** the listing this was normalized from */
+   source: Listings.Listing;
+}
+
+export interface NormalizeResult {
+   listing: NormalizedListing;
+   /** values that were present but could not be parsed */
+   issues: ValidationIssue[];
+}
+
+const isEmpty = (value: unknown): value is null | undefined | "" =>
+   value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+
+/*
+ * The parse* helpers share one convention:
+ * `null` means the value is absent, `undefined` means it is present but not parseable.
+ */
+
+export const parseNumber = (value: unknown): number | null | undefined => {
+   if (isEmpty(value)) return null;
+   if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+   if (typeof value !== "string") return undefined;
+   const cleaned = value.replace(/[$,\s]/g, "");
+   const parsed = cleaned === "" ? NaN : Number(cleaned);
+   return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/** timestamps without a zone designator are read as UTC so results do not depend on the host */
+export const parseDate = (value: unknown): Date | null | undefined => {
+   if (isEmpty(value)) return null;
+   if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value;
+   if (typeof value === "number") return new Date(value);
+   if (typeof value !== "string") return undefined;
+   let text = value.trim().replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, "$1T$2");
+   if (/^\d{4}-\d{2}-\d{2}T[\d:.]+$/.test(text)) text += "Z";
+   const time = Date.parse(text);
+   return Number.isNaN(time) ? undefined : new Date(time);
+};
+
+export const parseYesNo = (value: unknown): boolean | null | undefined => {
+   if (isEmpty(value)) return null;
+   if (typeof value === "boolean") return value;
+   if (typeof value !== "string") return undefined;
+   const text = value.trim().toLowerCase();
+   if (text === "y" || text === "yes" || text === "true") return true;
+   if (text === "n" || text === "no" || text === "false") return false;
+   return undefined;
+};
+
+/** `1500-1999`, `< 700`, `5000+` or a single number */
+export const parseRange = (value: unknown): Range | null | undefined => {
+   if (isEmpty(value)) return null;
+   if (typeof value === "number") return Number.isFinite(value) ? { min: value, max: value } : undefined;
+   if (typeof value !== "string") return undefined;
+   const text = value.replace(/,/g, "").trim();
+   let match = /^(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)$/.exec(text);
+   if (match) return { min: Number(match[1]), max: Number(match[2]) };
+   match = /^<\s*(\d+(?:\.\d+)?)$/.exec(text);
+   if (match) return { min: null, max: Number(match[1]) };
+   match = /^(\d+(?:\.\d+)?)\s*\+$/.exec(text);
+   if (match) return { min: Number(match[1]), max: null };
+   match = /^(\d+(?:\.\d+)?)$/.exec(text);
+   if (match) return { min: Number(match[1]), max: Number(match[1]) };
+   return undefined;
+};
+
+/** `50 x 120`, `80x125`, `68X141`; irregular multi-sided lots are not parseable */
+export const parseDimensions = (value: unknown): Dimensions | null | undefined => {
+   if (isEmpty(value)) return null;
+   if (typeof value !== "string") return undefined;
+   const match = /^\s*(\d+(?:\.\d+)?)\s*[xX×]\s*(\d+(?:\.\d+)?)\s*$/.exec(value);
+   return match ? { width: Number(match[1]), depth: Number(match[2]) } : undefined;
+};
+
+/** accepts the API spelling (`condo`) and the feed spelling (`CondoProperty`) */
+export const parseClass = (value: unknown): Class | null | undefined => {
+   if (isEmpty(value)) return null;
+   if (typeof value !== "string") return undefined;
+   const text = value.trim().toLowerCase().replace(/property$/, "");
+   return ClassValues.find((item) => item === text);
+};
+
+export const parseType = (value: unknown): Type | null | undefined => {
+   if (isEmpty(value)) return null;
+   if (typeof value !== "string") return undefined;
+   const text = value.trim().toLowerCase();
+   return TypeValues.find((item) => item === text);
+};
+
+export const parseStatus = (value: unknown): Status | null | undefined => {
+   if (isEmpty(value)) return null;
+   if (typeof value !== "string") return undefined;
+   const text = value.trim().toUpperCase();
+   return StatusValues.find((item) => item === text);
+};
+
+export const parseLastStatus = (value: unknown): LastStatus | null | undefined => {
+   if (isEmpty(value)) return null;
+   if (typeof value !== "string") return undefined;
+   const text = value.trim().toLowerCase();
+   return LastStatusValues.find((item) => item.toLowerCase() === text);
+};
+
+/** reads a dotted path such as `address.city` or `details.numBedrooms` */
+export const getPath = (value: unknown, path: string): unknown => {
+   let current = value;
+   for (const key of path.split(".")) {
+      if (current === null || current === undefined || typeof current !== "object") return undefined;
+      current = (current as Record<string, unknown>)[key];
+   }
+   return current;
+};
+
+const text = (value: unknown): string | null => (isEmpty(value) ? null : String(value));
+
+const asArray = <T>(value: Record<string, T> | T[] | null | undefined): T[] => {
+   if (!value) return [];
+   return Array.isArray(value) ? value : Object.values(value);
+};
+
+/** the items with their key, an index when the feed sent a list instead of the record the type declares */
+const asEntries = <T>(value: Record<string, T> | T[] | null | undefined): Array<[string | number, T]> => {
+   if (!value) return [];
+   return Array.isArray(value) ? value.map((item, index) => [index, item]) : Object.entries(value);
+};
+
+export const normalizeListing = (listing: Listings.Listing): NormalizeResult => {
+   const issues: ValidationIssue[] = [];
+
+   const parse = <T>(
+      parser: (value: unknown) => T | null | undefined,
+      path: string,
+      value: unknown,
+      expected: string
+   ): T | null => {
+      const parsed = parser(value);
+      if (parsed === undefined) {
+         issues.push({ path, message: `could not parse ${expected}`, value });
+         return null;
+      }
+      return parsed;
+   };
+   const number = (path: string, value: unknown) => parse(parseNumber, path, value, "number");
+   const date = (path: string, value: unknown) => parse(parseDate, path, value, "date");
+   const yesNo = (path: string, value: unknown) => parse(parseYesNo, path, value, "Y/N flag");
+
+   const source = listing.details ?? {};
+   const details = {} as Record<string, unknown>;
+   for (const [key, value] of Object.entries(source)) {
+      if (key !== "bathrooms") details[key] = value ?? null;
+   }
+   // some boards put the range itself into sqft
+   const sqftAsRange = parseNumber(source.sqft) === undefined ? parseRange(source.sqft) : null;
+   for (const key of detailsNumberKeys) {
+      details[key] = key === "sqft" && sqftAsRange ? null : number(childPath("details", key), source[key]);
+   }
+   for (const key of detailsBooleanKeys) {
+      details[key] = yesNo(childPath("details", key), source[key]);
+   }
+   details.sqftRange = parse(parseRange, "details.sqftRange", source.sqftRange, "range") ?? sqftAsRange ?? null;
+   details.bathrooms = asArray(source.bathrooms);
+
+   const condo = listing.condominium;
+   const condominium: NormalizedCondominium | null = condo
+      ? {
+           ...condo,
+           ammenities: condo.ammenities ?? ((condo as Record<string, unknown>).amenities as string[] | undefined) ?? [],
+           stories: number("condominium.stories", condo.stories),
+           ensuiteLaundry: yesNo("condominium.ensuiteLaundry", condo.ensuiteLaundry),
+           fees: {
+              maintenance: number("condominium.fees.maintenance", condo.fees?.maintenance),
+              cableIncl: yesNo("condominium.fees.cableIncl", condo.fees?.cableIncl),
+              heatIncl: yesNo("condominium.fees.heatIncl", condo.fees?.heatIncl),
+              hydroIncl: yesNo("condominium.fees.hydroIncl", condo.fees?.hydroIncl),
+              parkingIncl: yesNo("condominium.fees.parkingIncl", condo.fees?.parkingIncl),
+              taxesIncl: yesNo("condominium.fees.taxesIncl", condo.fees?.taxesIncl),
+              waterIncl: yesNo("condominium.fees.waterIncl", condo.fees?.waterIncl),
+           },
+        }
+      : null;
+
+   const lot = listing.lot ?? {};
+   // keys the type does not declare are dropped
+   const timestamps = emptyTimestamps();
+   for (const key of Object.keys(timestamps) as Array<keyof NormalizedTimestamps>) {
+      timestamps[key] = date(childPath("timestamps", key), listing.timestamps?.[key]);
+   }
+
+   const latitude = number("map.latitude", listing.map?.latitude);
+   const longitude = number("map.longitude", listing.map?.longitude);
+
+   const normalized: NormalizedListing = {
+      mlsNumber: text(listing.mlsNumber),
+      boardId: number("boardId", listing.boardId),
+      resource: text(listing.resource),
+      status: parse(parseStatus, "status", listing.status, "status"),
+      class: parse(parseClass, "class", listing.class, "class"),
+      type: parse(parseType, "type", listing.type, "type"),
+      lastStatus: parse(parseLastStatus, "lastStatus", listing.lastStatus, "lastStatus"),
+      listPrice: number("listPrice", listing.listPrice),
+      originalPrice: number("originalPrice", listing.originalPrice),
+      soldPrice: number("soldPrice", listing.soldPrice),
+      pricePerSqft: null,
+      listDate: date("listDate", listing.listDate),
+      soldDate: date("soldDate", listing.soldDate),
+      updatedOn: date("updatedOn", listing.updatedOn),
+      daysOnMarket: number("daysOnMarket", listing.daysOnMarket),
+      occupancy: text(listing.occupancy),
+      assignment: text(listing.assignment),
+      coopCompensation: text(listing.coopCompensation),
+      address: { ...listing.address },
+      map: latitude !== null && longitude !== null ? { latitude, longitude } : null,
+      permissions: {
+         displayAddressOnInternet: yesNo("permissions.displayAddressOnInternet", listing.permissions?.displayAddressOnInternet),
+         displayPublic: yesNo("permissions.displayPublic", listing.permissions?.displayPublic),
+         displayInternetEntireListing: yesNo(
+            "permissions.displayInternetEntireListing",
+            listing.permissions?.displayInternetEntireListing
+         ),
+      },
+      images: listing.images ?? [],
+      photoCount: number("photoCount", listing.photoCount) ?? listing.images?.length ?? 0,
+      details: details as NormalizedDetails,
+      condominium,
+      lot: {
+         acres: number("lot.acres", lot.acres),
+         depth: number("lot.depth", lot.depth),
+         width: number("lot.width", lot.width),
+         size: number("lot.size", lot.size),
+         squareFeet: number("lot.squareFeet", lot.squareFeet),
+         // free-form values like "IRR" or "Per survey" are common, so they are not reported
+         dimensions: parseDimensions(lot.dimensions) ?? null,
+         measurement: text(lot.measurement),
+         irregular: text(lot.irregular),
+         legalDescription: text(lot.legalDescription),
+         features: text(lot.features),
+      },
+      nearby: {
+         ammenities: listing.nearby?.ammenities ?? ((listing.nearby as Record<string, unknown> | undefined)?.amenities as string[] | undefined) ?? [],
+      },
+      office: {
+         brokerageName: text(listing.office?.brokerageName),
+      },
+      openHouse: asEntries(listing.openHouse).map(([key, item]) => {
+         const path = childPath("openHouse", key);
+         return {
+            date: date(childPath(path, "date"), item.date),
+            startTime: date(childPath(path, "startTime"), item.startTime),
+            endTime: date(childPath(path, "endTime"), item.endTime),
+            type: text(item.type),
+            status: text(item.status),
+            TZ: text(item.TZ),
+         };
+      }),
+      rooms: asArray(listing.rooms),
+      taxes: {
+         annualAmount: number("taxes.annualAmount", listing.taxes?.annualAmount),
+         assessmentYear: number("taxes.assessmentYear", listing.taxes?.assessmentYear),
+      },
+      timestamps,
+      agents: listing.agents ?? [],
+      duplicates: listing.duplicates ?? [],
+      source: listing,
+   };
+
+   normalized.pricePerSqft = pricePerSqft(normalized);
+
+   return { listing: normalized, issues };
+};
+
+export const midpoint = (range: Range | null): number | null => {
+   if (!range) return null;
+   if (range.min !== null && range.max !== null) return (range.min + range.max) / 2;
+   return range.min ?? range.max;
+};
+
+export const SQFT_PER_ACRE = 43560;
+
+/** square feet, from squareFeet, acres, width × depth or the parsed dimensions, in that order */
+export const lotArea = (lot: NormalizedLot): number | null =>
+   lot.squareFeet ??
+   (lot.acres !== null ? lot.acres * SQFT_PER_ACRE : null) ??
+   (lot.width !== null && lot.depth !== null ? lot.width * lot.depth : null) ??
+   (lot.dimensions ? lot.dimensions.width * lot.dimensions.depth : null);
+
+export const pricePerSqft = (listing: Pick<NormalizedListing, "listPrice" | "soldPrice" | "details">): number | null => {
+   const price = listing.soldPrice || listing.listPrice;
+   const sqft = listing.details.sqft ?? midpoint(listing.details.sqftRange);
+   return price && sqft ? price / sqft : null;
+};
+
+export const normalizeListings = (listings: Listings.Listing[]): NormalizeResult[] =>
+   listings.map(normalizeListing);
@@ -0,0 +1,253 @@
+import { KnownKeys } from "./index.js";
+import * as Listings from "./listings.js";
+
+type Kind = "string" | "number" | "boolean" | "strings" | "numbers" | "list" | "map" | "body";
+
+const FIELDS: { [K in KnownKeys<Listings.SearchRequest>]-?: Kind } = {
+   agent: "strings",
+   aggregates: "strings",
+   aggregateStatistics: "boolean",
+   amenities: "strings",
+   area: "string",
+   balcony: "strings",
+   basement: "strings",
+   boardId: "numbers",
+   brokerage: "string",
+   businessSubType: "strings",
+   businessType: "strings",
+   city: "strings",
+   class: "strings",
+   cluster: "boolean",
+   clusterFields: "list",
+   clusterLimit: "number",
+   clusterPrecision: "number",
+   clusterStatistics: "boolean",
+   coverImage: "string",
+   den: "string",
+   displayAddressOnInternet: "string",
+   displayInternetEntireListing: "string",
+   displayPublic: "string",
+   district: "numbers",
+   driveway: "strings",
+   exteriorConstruction: "strings",
+   fields: "list",
+   garage: "strings",
+   hasAgents: "boolean",
+   hasImages: "boolean",
+   heating: "strings",
+   lastStatus: "strings",
+   lat: "string",
+   listDate: "string",
+   listings: "boolean",
+   locker: "strings",
+   long: "string",
+   map: "map",
+   mapOperator: "string",
+   maxBaths: "number",
+   maxBeds: "number",
+   maxBedrooms: "number",
+   maxBedsPlus: "number",
+   maxBedroomsPlus: "number",
+   maxBedroomsTotal: "number",
+   maxKitchens: "number",
+   maxListDate: "string",
+   maxMaintenanceFee: "number",
+   maxOpenHouseDate: "string",
+   maxPrice: "number",
+   maxRepliersUpdatedOn: "string",
+   maxSoldDate: "string",
+   maxSoldPrice: "number",
+   maxStreetNumber: "number",
+   maxSqft: "number",
+   maxTaxes: "number",
+   maxUnavailableDate: "string",
+   maxUpdatedOn: "string",
+   maxYearBuilt: "number",
+   minBaths: "number",
+   minBeds: "number",
+   minBedrooms: "number",
+   minBedsPlus: "number",
+   minBedroomsPlus: "number",
+   minBedroomsTotal: "number",
+   minGarageSpaces: "number",
+   minKitchens: "number",
+   minListDate: "string",
+   minOpenHouseDate: "string",
+   minParkingSpaces: "number",
+   minPrice: "number",
+   minRepliersUpdatedOn: "string",
+   minSoldDate: "string",
+   // typed as a string upstream, kept that way
+   minSoldPrice: "string",
+   minSqft: "number",
+   minStreetNumber: "number",
+   minUnavailableDate: "string",
+   minUpdatedOn: "string",
+   minYearBuilt: "string",
+   mlsNumber: "strings",
+   neighborhood: "strings",
+   officeId: "string",
+   operator: "string",
+   pageNum: "number",
+   propertyType: "strings",
+   radius: "number",
+   resultsPerPage: "number",
+   search: "string",
+   searchFields: "list",
+   sortBy: "string",
+   sqft: "strings",
+   statistics: "list",
+   status: "strings",
+   streetDirection: "strings",
+   streetName: "string",
+   streetNumber: "string",
+   streetSuffix: "string",
+   style: "strings",
+   swimmingPool: "strings",
+   type: "strings",
+   unitNumber: "strings",
+   updatedOn: "string",
+   waterSource: "strings",
+   repliersUpdatedOn: "string",
+   sewer: "strings",
+   state: "string",
+   waterfront: "string",
+   yearBuilt: "strings",
+   zip: "string",
+   zoning: "string",
+   body: "body",
+};
+
+export interface SerializedSearch {
+   /** canonical query string, without the leading `?` */
+   query: string;
+   /** POST body, only when the request has one */
+   body?: NonNullable<Listings.SearchRequest["body"]>;
+}
+
+export class QueryError extends Error {
+   constructor(public readonly param: string, message: string) {
+      super(`${param}: ${message}`);
+      this.name = "QueryError";
+   }
+}
+
+const kindOf = (key: string): Kind | undefined => (FIELDS as Record<string, Kind>)[key];
+
+const unique = (values: string[]) => [...new Set(values)].sort();
+
+const splitList = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+
+const encodeValues = (key: string, value: unknown): string[] => {
+   switch (kindOf(key)) {
+      case "map":
+         return [JSON.stringify(value)];
+      case "list":
+         return [unique(splitList(String(value))).join(",")].filter(Boolean);
+      default:
+         if (Array.isArray(value)) return unique(value.filter((item) => item !== null && item !== undefined).map(String));
+         if (typeof value === "object") return [JSON.stringify(value)];
+         return [String(value)];
+   }
+};
+
+/**
+ * Canonical URL encoding of Listings.SearchRequest, read back with parseSearchRequest.
+ *
+ * Arrays are repeated (`city=Markham&city=Toronto`), `map` is JSON, comma-separated fields
+ * (fields, statistics, ...) stay one parameter and `body` is never part of the query.
+ * The canonical form sorts parameters, array values and comma-separated values and drops duplicates and
+ * empty values, so two requests that select the same listings serialize to the same string.
+ */
+export const serializeSearchRequest = (request: Listings.SearchRequest): SerializedSearch => {
+   const params = new URLSearchParams();
+   for (const key of Object.keys(request).sort()) {
+      const value = request[key];
+      if (key === "body" || value === undefined || value === null || value === "") continue;
+      for (const item of encodeValues(key, value)) params.append(key, item);
+   }
+   const result: SerializedSearch = { query: params.toString() };
+   if (request.body?.imageSearchItems?.length) result.body = request.body;
+   return result;
+};
+
+/** a stable key for caching responses, includes the body */
+export const cacheKey = (request: Listings.SearchRequest): string => {
+   const { query, body } = serializeSearchRequest(request);
+   return body ? `${query}#${JSON.stringify(body)}` : query;
+};
+
+const toNumber = (key: string, value: string) => {
+   const number = Number(value);
+   if (value.trim() === "" || !Number.isFinite(number)) throw new QueryError(key, `expected a number, got "${value}"`);
+   return number;
+};
+
+const toMap = (key: string, value: string) => {
+   let map: unknown;
+   try {
+      map = JSON.parse(value);
+   } catch {
+      throw new QueryError(key, "expected JSON");
+   }
+   const isPosition = (position: unknown) =>
+      Array.isArray(position) && position.length === 2 && position.every((item) => typeof item === "number");
+   if (!Array.isArray(map) || !map.every((ring) => Array.isArray(ring) && ring.every(isPosition))) {
+      throw new QueryError(key, "expected an array of [lng, lat] rings");
+   }
+   return map as [number, number][][];
+};
+
+/**
+ * Reads a SearchRequest back from a URL, a query string or URLSearchParams.
+ * Values are converted to the declared types but not checked against enums, use Validate for that.
+ * Unknown parameters are kept as strings (string arrays when repeated).
+ * @throws QueryError when a number, boolean or map cannot be parsed
+ */
+export const parseSearchRequest = (
+   input: string | URL | URLSearchParams,
+   body?: Listings.SearchRequest["body"]
+): Listings.SearchRequest => {
+   let params: URLSearchParams;
+   if (input instanceof URLSearchParams) params = input;
+   else if (input instanceof URL) params = input.searchParams;
+   else {
+      const query = input.includes("?") ? input.slice(input.indexOf("?") + 1) : input;
+      params = new URLSearchParams(query.split("#")[0]);
+   }
+
+   const keys = new Set<string>();
+   params.forEach((_, key) => keys.add(key));
+   const request: Listings.SearchRequest = {};
+   for (const key of keys) {
+      const values = params.getAll(key);
+      const last = values[values.length - 1];
+      switch (kindOf(key)) {
+         case "number":
+            request[key] = toNumber(key, last);
+            break;
+         case "boolean":
+            if (last !== "true" && last !== "false") throw new QueryError(key, `expected true or false, got "${last}"`);
+            request[key] = last === "true";
+            break;
+         case "strings":
+            request[key] = values;
+            break;
+         case "numbers":
+            request[key] = values.map((value) => toNumber(key, value));
+            break;
+         case "list":
+            request[key] = values.flatMap(splitList).join(",");
+            break;
+         case "map":
+            request[key] = toMap(key, last);
+            break;
+         case "body":
+            throw new QueryError(key, "is sent as the request body, not in the query");
+         default:
+            request[key] = values.length > 1 ? values : last;
+      }
+   }
+   if (body) request.body = body;
+   return request;
+};
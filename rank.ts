@@ -0,0 +1,170 @@
+import * as Listings from "./listings.js";
+import { NormalizedListing, normalizeListing } from "./normalize.js";
+import { Decision, Swipe } from "./swipe.js";
+
+export type FeatureName =
+   | "style"
+   | "propertyType"
+   | "bedrooms"
+   | "sqft"
+   | "basement"
+   | "garage"
+   | "neighborhood"
+   | "pricePerSqft"
+   | "amenity";
+
+export interface Feature {
+   name: FeatureName;
+   value: string;
+}
+
+export interface Example {
+   listing: Listings.Listing;
+   decision: Decision;
+}
+
+export interface TrainOptions {
+   /** @defaultValue `100` */
+   epochs?: number;
+   /** @defaultValue `0.1` */
+   learningRate?: number;
+   /** L2 penalty, keeps rare features from dominating @defaultValue `0.01` */
+   regularization?: number;
+   /** how many times a superlike counts as a like @defaultValue `2` */
+   superlikeWeight?: number;
+}
+
+/** plain JSON, can be stored next to the swipe session */
+export interface Model {
+   version: 1;
+   bias: number;
+   /** keyed by `name=value` */
+   weights: Record<string, number>;
+   examples: number;
+}
+
+export interface Contribution extends Feature {
+   weight: number;
+}
+
+export interface Recommendation {
+   listing: Listings.Listing;
+   /** probability of a like, `0.5` when the model knows nothing about the listing */
+   score: number;
+   /** features with the largest weights, strongest first */
+   reasons: Contribution[];
+}
+
+export interface RankOptions {
+   /** number of reasons per recommendation @defaultValue `3` */
+   explain?: number;
+}
+
+const SQFT_BUCKET = 500;
+const PRICE_SQFT_BUCKET = 250;
+
+const bucket = (value: number, size: number) => {
+   const low = Math.floor(value / size) * size;
+   return `${low}-${low + size - 1}`;
+};
+
+const key = ({ name, value }: Feature) => `${name}=${value}`;
+
+const parseKey = (feature: string): Feature => {
+   const index = feature.indexOf("=");
+   return { name: feature.slice(0, index) as FeatureName, value: feature.slice(index + 1) };
+};
+
+const text = (value: string | null | undefined) => value?.trim() || null;
+
+export const features = (listing: NormalizedListing): Feature[] => {
+   const result: Feature[] = [];
+   const add = (name: FeatureName, value: string | null) => {
+      if (value !== null) result.push({ name, value });
+   };
+   const { details } = listing;
+   add("style", text(details.style));
+   add("propertyType", text(details.propertyType));
+   if (details.numBedrooms !== null) add("bedrooms", details.numBedrooms >= 5 ? "5+" : String(details.numBedrooms));
+   const sqft = details.sqft ?? details.sqftRange?.min ?? details.sqftRange?.max ?? null;
+   if (sqft) add("sqft", bucket(sqft, SQFT_BUCKET));
+   // basement1 is a comma-separated list such as "Finished, Walk-Out Access"
+   for (const part of new Set((details.basement1 ?? "").split(",").map((part) => part.trim()).filter(Boolean))) {
+      add("basement", part);
+   }
+   const garage = text(details.garage);
+   add("garage", garage ?? (details.numGarageSpaces === null ? null : details.numGarageSpaces > 0 ? "Yes" : "None"));
+   add("neighborhood", text(listing.address.neighborhood));
+   if (listing.pricePerSqft !== null) add("pricePerSqft", bucket(listing.pricePerSqft, PRICE_SQFT_BUCKET));
+   for (const amenity of new Set(listing.condominium?.ammenities.map((amenity) => amenity.trim()).filter(Boolean))) {
+      add("amenity", amenity);
+   }
+   return result;
+};
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+const logit = (model: Model, keys: string[]) =>
+   keys.reduce((sum, feature) => sum + (model.weights[feature] ?? 0), model.bias);
+
+export const emptyModel = (): Model => ({ version: 1, bias: 0, weights: {}, examples: 0 });
+
+/** deterministic: the same examples in the same order always give the same model */
+export const train = (examples: Example[], options: TrainOptions = {}): Model => {
+   const { epochs = 100, learningRate = 0.1, regularization = 0.01, superlikeWeight = 2 } = options;
+   const samples = examples.map(({ listing, decision }) => ({
+      keys: features(normalizeListing(listing).listing).map(key),
+      label: decision === "pass" ? 0 : 1,
+      weight: decision === "superlike" ? superlikeWeight : 1,
+   }));
+   const model = emptyModel();
+   model.examples = samples.length;
+   if (!samples.length) return model;
+
+   for (let epoch = 0; epoch < epochs; epoch++) {
+      for (const { keys, label, weight } of samples) {
+         const gradient = (label - sigmoid(logit(model, keys))) * weight;
+         model.bias += learningRate * gradient;
+         for (const feature of keys) {
+            const current = model.weights[feature] ?? 0;
+            model.weights[feature] = current + learningRate * (gradient - regularization * current);
+         }
+      }
+   }
+   return model;
+};
+
+/** pairs swipes with the listings they were made on, swipes without a listing are ignored */
+export const trainFromSwipes = (swipes: Swipe[], listings: Listings.Listing[], options?: TrainOptions): Model => {
+   const byMlsNumber = new Map(listings.map((listing) => [listing.mlsNumber, listing]));
+   const examples = swipes
+      .map(({ mlsNumber, decision }) => ({ listing: byMlsNumber.get(mlsNumber), decision }))
+      .filter((example): example is Example => example.listing !== undefined);
+   return train(examples, options);
+};
+
+export const score = (model: Model, listing: Listings.Listing, { explain = 3 }: RankOptions = {}): Recommendation => {
+   const keys = [...new Set(features(normalizeListing(listing).listing).map(key))];
+   const reasons = keys
+      .map((feature) => ({ ...parseKey(feature), weight: model.weights[feature] ?? 0 }))
+      .filter(({ weight }) => weight !== 0)
+      .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight) || key(a).localeCompare(key(b)))
+      .slice(0, Math.max(0, explain));
+   return { listing, score: sigmoid(logit(model, keys)), reasons };
+};
+
+/**
+ * Re-orders candidate listings by what a client liked in their swipes, see trainFromSwipes.
+ *
+ * Every listing is turned into a set of binary features (`neighborhood=Leslieville`, `bedrooms=3`, ...),
+ * numbers are bucketed so that "close enough" values share a feature.
+ * The model is a logistic regression trained on likes (1) and passes (0), so a feature weight is
+ * its contribution to the log-odds of a like and the top weights of a listing explain its rank.
+ *
+ * Best first, listings with the same score keep their original order.
+ */
+export const rank = (model: Model, listings: Listings.Listing[], options?: RankOptions): Recommendation[] =>
+   listings
+      .map((listing, index) => ({ recommendation: score(model, listing, options), index }))
+      .sort((a, b) => b.recommendation.score - a.recommendation.score || a.index - b.index)
+      .map(({ recommendation }) => recommendation);
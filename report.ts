@@ -0,0 +1,332 @@
+import * as Comps from "./comps.js";
+import * as Estimate from "./estimate.js";
+import * as Listings from "./listings.js";
+import { normalizeListing } from "./normalize.js";
+
+export type Valued = Pick<Estimate.AddResponse, "estimate" | "estimateLow" | "estimateHigh" | "confidence" | "history"> & {
+   estimateId?: number;
+   payload?: { address?: Partial<Estimate.AddRequest["address"]> };
+};
+
+/** one run of the estimate, `date` is an ISO timestamp */
+export interface Snapshot {
+   date: string;
+   estimate: number;
+   estimateLow: number;
+   estimateHigh: number;
+   confidence: number;
+}
+
+/** plain JSON */
+export interface History {
+   version: 1;
+   estimateId?: number;
+   /** oldest first, at most one per month */
+   snapshots: Snapshot[];
+}
+
+export type Trend = "up" | "down" | "flat";
+
+export interface MonthValue {
+   /** `YYYY-MM` */
+   month: string;
+   value: number;
+   /** against the month before, `null` for the first month */
+   change: number | null;
+   changePercent: number | null;
+}
+
+export interface Band {
+   low: number;
+   high: number;
+   /** high - low */
+   width: number;
+   /** width relative to the estimate */
+   widthPercent: number;
+}
+
+export interface ConfidenceTrend {
+   current: number;
+   /** confidence of the last run before this month, `null` without history */
+   previous: number | null;
+   trend: Trend;
+   points: Array<{ month: string; confidence: number }>;
+}
+
+export interface NearbySale {
+   mlsNumber: string | null;
+   address: string;
+   soldPrice: number;
+   soldDate: string | null;
+   /** km from the home */
+   distance: number | null;
+   bedrooms: number | null;
+   bathrooms: number | null;
+   sqft: number | null;
+   adjustedPrice: number;
+}
+
+export interface Report {
+   estimateId: number | null;
+   address: string;
+   /** `YYYY-MM` of the report */
+   month: string;
+   generatedOn: string;
+   estimate: number;
+   band: Band;
+   /** change since the previous month of the history, `null` when there is only one month */
+   change: { amount: number; percent: number; trend: Trend; since: string } | null;
+   months: MonthValue[];
+   confidence: ConfidenceTrend;
+   sales: NearbySale[];
+   /** adjusted value range of the sales, `null` without sales */
+   salesRange: Comps.ValueRange | null;
+}
+
+export interface ReportOptions {
+   /** previous runs, for the confidence trend */
+   history?: History;
+   /** nearby sales, as returned by Comps.comps for the home */
+   comps?: Comps.CompsResult;
+   /** months of value history in the report @defaultValue `12` */
+   months?: number;
+   /** sales in the report @defaultValue `5` */
+   sales?: number;
+   /** changes smaller than this fraction are reported as flat @defaultValue `0.005` */
+   flatThreshold?: number;
+   now?: Date;
+}
+
+export interface RenderOptions {
+   /** @defaultValue `"en-CA"` */
+   locale?: string;
+   /** @defaultValue `"CAD"` */
+   currency?: string;
+}
+
+const monthOf = (date: Date) => date.toISOString().slice(0, 7);
+
+const trendOf = (change: number, base: number, threshold: number): Trend =>
+   base && Math.abs(change / base) >= threshold ? (change > 0 ? "up" : "down") : "flat";
+
+const formatAddress = (address: Partial<Estimate.AddRequest["address"]> | Listings.Address | undefined) => {
+   if (!address) return "";
+   const street = [address.streetNumber, address.streetName, address.streetSuffix].filter(Boolean).join(" ");
+   const unit = address.unitNumber ? `${address.unitNumber} - ` : "";
+   return [unit + street, address.city].filter(Boolean).join(", ");
+};
+
+export const snapshot = (estimate: Valued, now: Date = new Date()): Snapshot => ({
+   date: now.toISOString(),
+   estimate: estimate.estimate,
+   estimateLow: estimate.estimateLow,
+   estimateHigh: estimate.estimateHigh,
+   confidence: estimate.confidence,
+});
+
+/** records a run, replacing an earlier run of the same month; the history passed in is not modified */
+export const track = (history: History | undefined, estimate: Valued, now: Date = new Date()): History => {
+   const current = snapshot(estimate, now);
+   const month = monthOf(now);
+   const snapshots = (history?.snapshots ?? [])
+      .filter((item) => item.date.slice(0, 7) !== month)
+      .concat(current)
+      .sort((a, b) => a.date.localeCompare(b.date));
+   const estimateId = estimate.estimateId ?? history?.estimateId;
+   return { version: 1, ...(estimateId !== undefined && { estimateId }), snapshots: JSON.parse(JSON.stringify(snapshots)) };
+};
+
+const nearbySale = (comp: Comps.Comp): NearbySale => {
+   const { listing } = normalizeListing(comp.listing);
+   return {
+      mlsNumber: listing.mlsNumber,
+      address: formatAddress(comp.listing.address ?? undefined),
+      soldPrice: comp.soldPrice,
+      soldDate: comp.soldDate,
+      distance: comp.distance,
+      bedrooms: listing.details.numBedrooms,
+      bathrooms: listing.details.numBathrooms,
+      sqft: comp.adjustments.find(({ feature }) => feature === "sqft")?.comp ?? null,
+      adjustedPrice: comp.adjustedPrice,
+   };
+};
+
+/**
+ * The monthly homeowner report that Estimate.sendEmailMonthly stands for, as a plain model: the value month
+ * over month (from `history.mth`), the low/high band, the confidence trend and nearby sales. The API keeps only
+ * the current confidence, so the trend needs the previous runs, recorded with `track` and stored by the caller
+ * as plain JSON. `renderHtml` and `renderText` turn the model into email bodies.
+ */
+export const buildReport = (estimate: Valued, options: ReportOptions = {}): Report => {
+   const { history, comps, months: monthCount = 12, sales = 5, flatThreshold = 0.005, now = new Date() } = options;
+
+   const entries = Object.entries(estimate.history?.mth ?? {})
+      .filter(([, item]) => Number.isFinite(item?.value))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .slice(-Math.max(1, monthCount));
+   const months = entries.map(([month, { value }], index): MonthValue => {
+      const before = index ? entries[index - 1][1].value : null;
+      return {
+         month,
+         value,
+         change: before === null ? null : value - before,
+         changePercent: before ? (value - before) / before : null,
+      };
+   });
+   const last = months[months.length - 1];
+   const change =
+      last && last.change !== null
+         ? {
+              amount: last.change,
+              percent: last.changePercent ?? 0,
+              trend: trendOf(last.change, last.value - last.change, flatThreshold),
+              since: months[months.length - 2].month,
+           }
+         : null;
+
+   const month = monthOf(now);
+   const earlier = (history?.snapshots ?? []).filter((item) => item.date.slice(0, 7) < month);
+   const previous = earlier.length ? earlier[earlier.length - 1].confidence : null;
+   const points = earlier
+      .map((item) => ({ month: item.date.slice(0, 7), confidence: item.confidence }))
+      .concat({ month, confidence: estimate.confidence })
+      .slice(-Math.max(1, monthCount));
+
+   const width = estimate.estimateHigh - estimate.estimateLow;
+   return {
+      estimateId: estimate.estimateId ?? history?.estimateId ?? null,
+      address: formatAddress(estimate.payload?.address),
+      month,
+      generatedOn: now.toISOString(),
+      estimate: estimate.estimate,
+      band: {
+         low: estimate.estimateLow,
+         high: estimate.estimateHigh,
+         width,
+         widthPercent: estimate.estimate ? width / estimate.estimate : 0,
+      },
+      change,
+      months,
+      confidence: {
+         current: estimate.confidence,
+         previous,
+         trend: previous === null ? "flat" : trendOf(estimate.confidence - previous, previous, flatThreshold),
+         points,
+      },
+      sales: (comps?.comps ?? []).slice(0, Math.max(0, sales)).map(nearbySale),
+      salesRange: comps?.range ?? null,
+   };
+};
+
+const formatters = ({ locale = "en-CA", currency = "CAD" }: RenderOptions) => {
+   const money = new Intl.NumberFormat(locale, { style: "currency", currency, maximumFractionDigits: 0 });
+   const percent = new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 1, signDisplay: "exceptZero" });
+   const plain = new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 0 });
+   const monthName = new Intl.DateTimeFormat(locale, { month: "long", year: "numeric", timeZone: "UTC" });
+   return {
+      money: (value: number) => money.format(value),
+      signed: (value: number) => (value > 0 ? "+" : value < 0 ? "-" : "") + money.format(Math.abs(value)),
+      percent: (value: number | null) => (value === null ? "" : percent.format(value)),
+      confidence: (value: number) => plain.format(value),
+      month: (value: string) => monthName.format(new Date(`${value}-01T00:00:00Z`)),
+   };
+};
+
+const ARROWS: Record<Trend, string> = { up: "▲", down: "▼", flat: "■" };
+
+/** escapes text for HTML content and attribute values */
+export const escapeHtml = (value: string) =>
+   value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const saleDetails = (sale: NearbySale) =>
+   [
+      sale.bedrooms !== null && `${sale.bedrooms} bd`,
+      sale.bathrooms !== null && `${sale.bathrooms} ba`,
+      sale.sqft !== null && `${Math.round(sale.sqft)} sqft`,
+      sale.distance !== null && `${sale.distance.toFixed(1)} km`,
+   ]
+      .filter(Boolean)
+      .join(", ");
+
+export const renderText = (report: Report, options: RenderOptions = {}): string => {
+   const format = formatters(options);
+   const lines = [
+      `Home value report, ${format.month(report.month)}`,
+      ...(report.address ? [report.address] : []),
+      "",
+      `Estimated value: ${format.money(report.estimate)}`,
+      `Range: ${format.money(report.band.low)} to ${format.money(report.band.high)}`,
+   ];
+   if (report.change) {
+      lines.push(
+         `Since ${format.month(report.change.since)}: ${format.signed(report.change.amount)} (${format.percent(report.change.percent)})`
+      );
+   }
+   const { confidence } = report;
+   lines.push(
+      `Confidence: ${format.confidence(confidence.current)}` +
+         (confidence.previous === null ? "" : ` (${confidence.trend}, was ${format.confidence(confidence.previous)})`)
+   );
+   if (report.months.length) {
+      lines.push("", "Value by month:");
+      for (const item of report.months) {
+         const change = item.change === null ? "" : `  ${format.signed(item.change)}`;
+         lines.push(`  ${item.month}  ${format.money(item.value)}${change}`);
+      }
+   }
+   if (report.sales.length) {
+      lines.push("", "Nearby sales:");
+      for (const sale of report.sales) {
+         const details = saleDetails(sale);
+         lines.push(
+            `  ${sale.address || sale.mlsNumber || "Unknown address"}: sold ${format.money(sale.soldPrice)}` +
+               (sale.soldDate ? ` on ${sale.soldDate.slice(0, 10)}` : "") +
+               (details ? ` (${details})` : "")
+         );
+      }
+   }
+   return lines.join("\n") + "\n";
+};
+
+export const renderHtml = (report: Report, options: RenderOptions = {}): string => {
+   const format = formatters(options);
+   const parts = [
+      `<h1>Home value report, ${escapeHtml(format.month(report.month))}</h1>`,
+      ...(report.address ? [`<p>${escapeHtml(report.address)}</p>`] : []),
+      `<p><strong>${escapeHtml(format.money(report.estimate))}</strong></p>`,
+      `<p>Range: ${escapeHtml(format.money(report.band.low))} to ${escapeHtml(format.money(report.band.high))}</p>`,
+   ];
+   if (report.change) {
+      const { amount, percent, trend, since } = report.change;
+      parts.push(
+         `<p>${ARROWS[trend]} ${escapeHtml(format.signed(amount))} (${escapeHtml(format.percent(percent))}) since ${escapeHtml(format.month(since))}</p>`
+      );
+   }
+   const { confidence } = report;
+   parts.push(
+      `<p>Confidence: ${escapeHtml(format.confidence(confidence.current))}` +
+         (confidence.previous === null
+            ? ""
+            : ` ${ARROWS[confidence.trend]} (was ${escapeHtml(format.confidence(confidence.previous))})`) +
+         "</p>"
+   );
+   if (report.months.length) {
+      const rows = report.months.map(
+         (item) =>
+            `<tr><td>${escapeHtml(item.month)}</td><td>${escapeHtml(format.money(item.value))}</td>` +
+            `<td>${item.change === null ? "" : escapeHtml(format.signed(item.change))}</td></tr>`
+      );
+      parts.push(`<table><tr><th>Month</th><th>Value</th><th>Change</th></tr>${rows.join("")}</table>`);
+   }
+   if (report.sales.length) {
+      const rows = report.sales.map(
+         (sale) =>
+            `<tr><td>${escapeHtml(sale.address || sale.mlsNumber || "")}</td><td>${escapeHtml(format.money(sale.soldPrice))}</td>` +
+            `<td>${escapeHtml(sale.soldDate?.slice(0, 10) ?? "")}</td><td>${escapeHtml(saleDetails(sale))}</td></tr>`
+      );
+      parts.push(
+         `<h2>Nearby sales</h2><table><tr><th>Address</th><th>Sold</th><th>Date</th><th>Details</th></tr>${rows.join("")}</table>`
+      );
+   }
+   return `<div>${parts.join("\n")}</div>\n`;
+};
@@ -1,24 +1,9 @@
-import { ApiRequest, ApiResponse, Class, Type } from "./index.js";
+import { ApiRequest, ApiResponse, Class, KnownKeys, Type } from "./index.js";
 import * as Clients from "./clients.js";
+import * as Listings from "./listings.js";
 
-/**
- * TODO: add to docs
- * 
- * minSqft
- * maxSqft
- * minYearBuilt 
- * maxYearBuilt
- * minStories
- * maxStories
- * maxCoveredSpaces
- * minCoveredSpaces
- * amenities
- * keywords
- * pets
- * 
- */
-
-export interface CreateRequest extends ApiRequest {
+/** criteria and notification settings of a saved search */
+export interface SearchFields {
    clientId: number;
    name?: string;
    streetNumbers?: string[];
@@ -50,23 +35,40 @@ export interface CreateRequest extends ApiRequest {
    waterSource?: string[];
    heating?: string[];
    swimmingPool?: string[];
+   minSqft?: number;
+   maxSqft?: number;
+   minYearBuilt?: number;
+   maxYearBuilt?: number;
+   minStories?: number;
+   maxStories?: number;
+   minCoveredSpaces?: number;
+   maxCoveredSpaces?: number;
+   amenities?: string[];
+   keywords?: string[];
+   pets?: string;
 }
-export interface CreateResponse extends ApiResponse, Omit<CreateRequest, "class">
+
+export interface CreateRequest extends ApiRequest, SearchFields {}
+export interface CreateResponse extends ApiResponse, Omit<SearchFields, "class">
 {
    searchId: number;
    agentId: number;
    client: Pick<Clients.Client, "fname" | "lname" | "email" | "phone">;
 }
 
-//TODO: update type
-export interface UpdateRequest extends ApiRequest {
+/** every field is optional, fields that are left out keep their current value */
+export interface UpdateRequest extends ApiRequest, Partial<Omit<SearchFields, "clientId">> {
    searchId: number;
 }
-//TODO: update type
-export interface UpdateResponse extends ApiResponse {}
+/** the saved search after the update */
+export interface UpdateResponse extends CreateResponse {}
 
 export interface FilterRequest extends ApiRequest {
    clientId: number;
+   agentId?: number;
+   /** @defaultValue `1` */
+   pageNum?: number;
+   resultsPerPage?: number;
 }
 export interface FilterResponse extends ApiResponse {
    page: number;
@@ -84,6 +86,267 @@ export interface DeleteResponse extends ApiResponse {}
 export interface GetRequest extends ApiRequest {
    searchId: number;
 }
-export interface GetResponse extends ApiResponse {
-   client: Record<string, unknown>;
+export interface GetResponse extends CreateResponse {}
+
+/** the search as it will be stored after the update, fields left out of the update are kept */
+export const applyUpdate = <T extends Omit<SearchFields, "class">>(search: T, update: UpdateRequest): T => {
+   const result = { ...search } as Record<string, unknown>;
+   for (const [key, value] of Object.entries(update)) {
+      if (key !== "searchId" && value !== undefined) result[key] = value;
+   }
+   return result as T;
+};
+
+/** a field of one side that has no equivalent on the other */
+export interface Unrepresentable {
+   field: string;
+   value: unknown;
+   reason: string;
+}
+
+export interface Conversion<T> {
+   result: T;
+   unrepresentable: Unrepresentable[];
 }
+
+type Converted = { value: unknown } | { reason: string };
+
+type SavedField = keyof SearchFields;
+type RequestField = KnownKeys<Listings.SearchRequest>;
+
+interface FieldMapping {
+   saved: SavedField;
+   request: RequestField;
+   /** called with the value of `saved` only */
+   toRequest?: (value: unknown) => Converted;
+   /** called with the value of `request` only */
+   toSaved?: (value: unknown) => Converted;
+}
+
+/** notification settings and ownership, they have no listing-search counterpart and are never reported */
+const SETTINGS: ReadonlyArray<SavedField> = [
+   "clientId",
+   "name",
+   "notificationFrequency",
+   "status",
+   "soldNotifications",
+   "priceChangeNotifications",
+];
+
+/** fields of a saved search read back from the API, they identify the search and are never reported */
+const IDENTITY: ReadonlyArray<KnownKeys<CreateResponse>> = ["searchId", "agentId", "client"];
+
+/** listing-search fields that shape the response rather than select listings, they are never reported */
+const PRESENTATION: ReadonlyArray<RequestField> = [
+   "pageNum",
+   "resultsPerPage",
+   "sortBy",
+   "fields",
+   "listings",
+   "aggregates",
+   "aggregateStatistics",
+   "statistics",
+   "cluster",
+   "clusterFields",
+   "clusterLimit",
+   "clusterPrecision",
+   "clusterStatistics",
+];
+
+const same = (field: SavedField & RequestField): FieldMapping => ({ saved: field, request: field });
+
+const renamed = (saved: SavedField, request: RequestField): FieldMapping => ({ saved, request });
+
+/** a mapping with converters typed after the two fields, convert calls each with the value of its own field */
+const custom = <S extends SavedField, R extends RequestField>(
+   saved: S,
+   request: R,
+   toRequest: (value: NonNullable<SearchFields[S]>) => Converted,
+   toSaved: (value: NonNullable<Listings.SearchRequest[R]>) => Converted
+): FieldMapping => ({
+   saved,
+   request,
+   toRequest: (value) => toRequest(value as NonNullable<SearchFields[S]>),
+   toSaved: (value) => toSaved(value as NonNullable<Listings.SearchRequest[R]>),
+});
+
+type KeysOf<T, V> = { [K in keyof T]-?: NonNullable<T[K]> extends V ? K : never }[keyof T];
+
+/** a list on the saved search, a single value on the listing search */
+const single = (saved: KeysOf<SearchFields, string[]>, request: KeysOf<Pick<Listings.SearchRequest, RequestField>, string>) =>
+   custom(
+      saved,
+      request,
+      (values) => (values.length === 1 ? { value: values[0] } : { reason: `${request} takes a single value` }),
+      (value) => ({ value: [value] })
+   );
+
+const parseMap = (map: string): Converted => {
+   try {
+      const rings: unknown = JSON.parse(map);
+      const isRing = (ring: unknown) =>
+         Array.isArray(ring) &&
+         ring.every((position) => Array.isArray(position) && position.length === 2 && position.every(Number.isFinite));
+      if (Array.isArray(rings) && rings.length && rings.every(isRing)) return { value: rings };
+   } catch {
+      // reported below
+   }
+   return { reason: "not a JSON array of [lng, lat] rings" };
+};
+
+const MAPPINGS: FieldMapping[] = [
+   same("minPrice"),
+   same("maxPrice"),
+   renamed("minBeds", "minBedrooms"),
+   renamed("maxBeds", "maxBedrooms"),
+   same("minBaths"),
+   same("maxBaths"),
+   same("minKitchens"),
+   same("minGarageSpaces"),
+   same("minParkingSpaces"),
+   same("maxMaintenanceFee"),
+   same("minSqft"),
+   same("maxSqft"),
+   same("maxYearBuilt"),
+   custom(
+      "minYearBuilt",
+      "minYearBuilt",
+      (year) => ({ value: `${year}-01-01` }),
+      (date) => ({ value: Number(String(date).slice(0, 4)) })
+   ),
+   renamed("cities", "city"),
+   renamed("neighborhoods", "neighborhood"),
+   single("areas", "area"),
+   single("streetNumbers", "streetNumber"),
+   single("streetNames", "streetName"),
+   renamed("propertyTypes", "propertyType"),
+   renamed("styles", "style"),
+   custom(
+      "type",
+      "type",
+      (type) => ({ value: [type] }),
+      (types) => (types.length === 1 ? { value: types[0] } : { reason: "a saved search has one type" })
+   ),
+   same("class"),
+   same("basement"),
+   same("sewer"),
+   same("waterSource"),
+   same("heating"),
+   same("swimmingPool"),
+   same("amenities"),
+   custom(
+      "keywords",
+      "search",
+      (keywords) =>
+         keywords.some((keyword) => /\s/.test(keyword.trim()))
+            ? { reason: "keywords with spaces cannot be told apart in a free-text search" }
+            : { value: keywords.join(" ") },
+      (search) => ({ value: search.split(/\s+/).filter(Boolean) })
+   ),
+   custom("map", "map", parseMap, (map) => ({ value: JSON.stringify(map) })),
+];
+
+const convert = <T>(
+   source: Record<string, unknown>,
+   target: Record<string, unknown>,
+   direction: "toRequest" | "toSaved",
+   ignored: readonly string[]
+): Conversion<T> => {
+   const unrepresentable: Unrepresentable[] = [];
+   const used = new Set(ignored);
+   for (const mapping of MAPPINGS) {
+      const [from, to] = direction === "toRequest" ? [mapping.saved, mapping.request] : [mapping.request, mapping.saved];
+      used.add(from);
+      const value = source[from];
+      if (value === undefined) continue;
+      const converted = mapping[direction]?.(value) ?? { value };
+      if ("value" in converted) target[to] = converted.value;
+      else unrepresentable.push({ field: from, value, reason: converted.reason });
+   }
+   for (const [field, value] of Object.entries(source)) {
+      if (value === undefined || used.has(field)) continue;
+      const side = direction === "toRequest" ? "Listings.SearchRequest" : "Searches.SearchFields";
+      unrepresentable.push({ field, value, reason: `no equivalent in ${side}` });
+   }
+   return { result: target as T, unrepresentable };
+};
+
+/**
+ * The criteria of a saved search as a listing search.
+ * Notification settings are dropped silently, every other field that cannot be carried over is reported.
+ */
+export const toSearchRequest = (search: SearchFields): Conversion<Listings.SearchRequest> =>
+   convert({ ...search }, {}, "toRequest", [...SETTINGS, ...IDENTITY]);
+
+const fold = (value: unknown) => (value === null || value === undefined ? "" : String(value).trim().toLowerCase());
+
+const searchableText = (listing: Listings.Listing) =>
+   fold(
+      [
+         listing.mlsNumber,
+         listing.details?.description,
+         listing.details?.extras,
+         listing.address?.streetName,
+         listing.address?.neighborhood,
+         listing.address?.area,
+         listing.address?.city,
+      ].join(" ")
+   );
+
+/**
+ * Checks on a listing the criteria that toSearchRequest reported as unrepresentable, for the listings the
+ * converted request returns: areas, street numbers and street names with several values, and keywords with spaces.
+ * `undefined` when any other criterion is unrepresentable. It cannot be checked here either and the request alone
+ * would return listings the saved search excludes, so callers must fail closed.
+ */
+export const checkUnrepresentable = (
+   unrepresentable: readonly Unrepresentable[]
+): ((listing: Listings.Listing) => boolean) | undefined => {
+   const checks: Array<(listing: Listings.Listing) => boolean> = [];
+   for (const { field, value } of unrepresentable) {
+      const values = (Array.isArray(value) ? value : [value]).map(fold).filter(Boolean);
+      const anyOf = (read: (listing: Listings.Listing) => unknown) => (listing: Listings.Listing) =>
+         values.includes(fold(read(listing)));
+      switch (field) {
+         case "areas":
+            checks.push(anyOf((listing) => listing.address?.area));
+            break;
+         case "streetNumbers":
+            checks.push(anyOf((listing) => listing.address?.streetNumber));
+            break;
+         case "streetNames":
+            checks.push(anyOf((listing) => listing.address?.streetName));
+            break;
+         case "keywords":
+            checks.push((listing) => {
+               const text = searchableText(listing);
+               return values.every((keyword) => text.includes(keyword));
+            });
+            break;
+         default:
+            return undefined;
+      }
+   }
+   return (listing) => checks.every((check) => check(listing));
+};
+
+/**
+ * A listing search as the criteria of a saved search, `base` provides the owner, the settings
+ * and the required fields the listing search does not have.
+ * Paging, sorting and aggregates are dropped silently, every other field that cannot be carried over is reported.
+ * `status: ["A"]` and `operator: "AND"` are what a saved search does anyway and are not reported.
+ */
+export const fromSearchRequest = <T extends Pick<SearchFields, "clientId" | "minPrice" | "maxPrice" | "type">>(
+   request: Listings.SearchRequest,
+   base: T & Partial<SearchFields>
+): Conversion<T & SearchFields> => {
+   const { minBeds, maxBeds, status, operator, ...rest } = request;
+   const source: Record<string, unknown> = {
+      ...rest,
+      minBedrooms: rest.minBedrooms ?? minBeds,
+      maxBedrooms: rest.maxBedrooms ?? maxBeds,
+   };
+   if (status && !(status.length === 1 && status[0] === "A")) source.status = status;
+   if (operator && operator !== "AND") source.operator = operator;
+   return convert(source, { ...base }, "toSaved", PRESENTATION);
+};
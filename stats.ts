@@ -0,0 +1,239 @@
+import { Statistics, StatisticsList, StatisticsParam, StatisticsValues } from "./index.js";
+import * as Listings from "./listings.js";
+import { NormalizedListing, normalizeListing } from "./normalize.js";
+
+export type Operation = "avg" | "sum" | "min" | "max" | "med" | "sd";
+export type Metric = "daysOnMarket" | "listPrice" | "soldPrice" | "tax";
+export type Counter = "new" | "closed" | "available";
+
+const OPERATIONS: readonly Operation[] = ["avg", "sum", "min", "max", "med", "sd"];
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface StatisticsOptions {
+   /** end of the rolling windows @defaultValue `new Date()` */
+   now?: Date;
+}
+
+export type StatisticsResponse = Listings.SearchResponse["statistics"];
+
+export const isStatistic = (value: string): value is StatisticsParam =>
+   (StatisticsValues as readonly string[]).includes(value) || /^grp-[1-9]\d*-days$/.test(value);
+
+/** checked, de-duplicated alternative to writing the comma-separated string by hand */
+export const buildStatistics = (...values: StatisticsParam[]): StatisticsList => {
+   const unique = [...new Set(values)];
+   const invalid = unique.filter((value) => !isStatistic(value));
+   if (invalid.length) throw new RangeError(`unknown statistics: ${invalid.join(",")}`);
+   if (!unique.length) throw new RangeError("at least one statistic is required");
+   return unique.join(",") as StatisticsList;
+};
+
+export const parseStatistics = (value: string): StatisticsParam[] => {
+   const entries = value.split(",").map((entry) => entry.trim()).filter(Boolean);
+   const invalid = entries.filter((entry) => !isStatistic(entry));
+   if (invalid.length) throw new RangeError(`unknown statistics: ${invalid.join(",")}`);
+   return [...new Set(entries)] as StatisticsParam[];
+};
+
+export const summarize = (
+   values: number[],
+   operations: readonly Operation[] = OPERATIONS
+): Listings.BaseStat | undefined => {
+   if (!values.length || !operations.length) return undefined;
+   const sorted = [...values].sort((a, b) => a - b);
+   const sum = sorted.reduce((total, value) => total + value, 0);
+   const avg = sum / sorted.length;
+   const middle = Math.floor(sorted.length / 2);
+   const all: Required<Pick<Listings.BaseStat, Operation>> = {
+      avg,
+      sum,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      med: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+      sd: Math.sqrt(sorted.reduce((total, value) => total + (value - avg) ** 2, 0) / sorted.length),
+   };
+   const result: Listings.BaseStat = {};
+   for (const operation of operations) result[operation] = all[operation];
+   return result;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const yearKey = (date: Date) => String(date.getUTCFullYear());
+const monthKey = (date: Date) => `${yearKey(date)}-${pad(date.getUTCMonth() + 1)}`;
+const dayKey = (date: Date) => `${monthKey(date)}-${pad(date.getUTCDate())}`;
+
+const rollingKey = (days: number, now: Date) => (date: Date): string | null => {
+   const age = now.getTime() - date.getTime();
+   if (age < 0) return null;
+   const window = Math.floor(age / (days * DAY));
+   return dayKey(new Date(now.getTime() - (window + 1) * days * DAY));
+};
+
+interface Sample {
+   date: Date | null;
+   value: number;
+}
+
+type Bucket = Listings.RangeStat;
+
+const group = (
+   samples: Sample[],
+   keyOf: (date: Date) => string | null,
+   operations: readonly Operation[]
+): Record<string, Bucket> => {
+   const buckets = new Map<string, number[]>();
+   for (const { date, value } of samples) {
+      const key = date && keyOf(date);
+      if (!key) continue;
+      const values = buckets.get(key) ?? [];
+      values.push(value);
+      buckets.set(key, values);
+   }
+   const result: Record<string, Bucket> = {};
+   for (const key of [...buckets.keys()].sort()) {
+      const values = buckets.get(key)!;
+      result[key] = { count: values.length, ...summarize(values, operations) };
+   }
+   return result;
+};
+
+const isClosed = (listing: NormalizedListing) =>
+   listing.soldDate !== null || listing.lastStatus === "Sld" || listing.lastStatus === "Lsd";
+
+const metricSample: Record<Metric, (listing: NormalizedListing) => Sample | null> = {
+   listPrice: (listing) => (listing.listPrice === null ? null : { date: listing.listDate, value: listing.listPrice }),
+   // the sold price of a lease is a monthly rent
+   soldPrice: (listing) =>
+      listing.soldPrice && listing.type !== "lease" ? { date: listing.soldDate, value: listing.soldPrice } : null,
+   daysOnMarket: (listing) =>
+      listing.daysOnMarket === null
+         ? null
+         : { date: listing.soldDate ?? listing.listDate, value: listing.daysOnMarket },
+   tax: (listing) =>
+      listing.taxes.annualAmount === null ? null : { date: listing.listDate, value: listing.taxes.annualAmount },
+};
+
+const counterDate: Record<Counter, (listing: NormalizedListing) => Date | null | false> = {
+   new: (listing) => listing.listDate ?? false,
+   closed: (listing) => isClosed(listing) && (listing.soldDate ?? listing.timestamps.closedDate ?? listing.updatedOn),
+   available: (listing) => listing.status === "A" && listing.listDate,
+};
+
+/** price per sqft bounds, using both ends of sqftRange when the exact size is unknown */
+const priceSqft = (listing: NormalizedListing): { low: number; high: number; date: Date | null } | null => {
+   const price = listing.soldPrice || listing.listPrice;
+   if (!price) return null;
+   const { sqft, sqftRange } = listing.details;
+   const smallest = sqft ?? sqftRange?.min ?? sqftRange?.max;
+   const largest = sqft ?? sqftRange?.max ?? sqftRange?.min;
+   if (!smallest || !largest) return null;
+   return { low: price / largest, high: price / smallest, date: listing.soldDate ?? listing.listDate };
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Local implementation of SearchRequest.statistics, producing SearchResponse.statistics.
+ *
+ * Every metric is bucketed by the date that makes sense for it:
+ * listPrice and tax by listDate, soldPrice by soldDate, daysOnMarket by soldDate (listDate while active).
+ * soldPrice leaves out leases and cnt-new the listings without a listDate.
+ * grp-mth / grp-yr fill the `mth` / `yr` maps, grp-day and grp-{N}-days fill the keys of the same name.
+ * Rolling windows are keyed by the first day of the window and counted back from `now`.
+ */
+export const compute = (
+   listings: NormalizedListing[],
+   statistics: StatisticsList | StatisticsParam[],
+   { now = new Date() }: StatisticsOptions = {}
+): StatisticsResponse => {
+   const requested = typeof statistics === "string" ? parseStatistics(statistics) : statistics;
+   const operations = new Map<Metric, Set<Operation>>();
+   const counters = new Set<Counter>();
+   const groupings: Array<{ name: "mth" | "yr" | Listings.RollingPeriodName<`${number}`>; keyOf: (date: Date) => string | null }> = [];
+   let priceSqftRequested = false;
+
+   for (const entry of requested) {
+      if (entry === "grp-mth") groupings.push({ name: "mth", keyOf: monthKey });
+      else if (entry === "grp-yr") groupings.push({ name: "yr", keyOf: yearKey });
+      else if (entry === "grp-day") groupings.push({ name: "grp-day", keyOf: dayKey });
+      else if (entry.startsWith("grp-")) {
+         const days = Number(entry.split("-")[1]);
+         groupings.push({ name: `grp-${days}-days`, keyOf: rollingKey(days, now) });
+      } else if (entry === "avg-priceSqft") priceSqftRequested = true;
+      else if (entry.startsWith("cnt-")) counters.add(entry.slice(4) as Counter);
+      else {
+         const [operation, metric] = (entry as Statistics).split("-") as [Operation, Metric];
+         const set = operations.get(metric) ?? new Set<Operation>();
+         set.add(operation);
+         operations.set(metric, set);
+      }
+   }
+
+   const result: StatisticsResponse = {};
+
+   for (const counter of counters) {
+      const dates = listings
+         .map((listing) => counterDate[counter](listing))
+         .filter((date): date is Date | null => date !== false);
+      const samples = dates.map((date) => ({ date, value: 1 }));
+      const count = (keyOf: (date: Date) => string | null) =>
+         Object.fromEntries(Object.entries(group(samples, keyOf, [])).map(([key, { count }]) => [key, { count }]));
+      result[counter] = {
+         count: dates.length,
+         mth: count(monthKey),
+         yr: count(yearKey),
+      };
+   }
+
+   for (const [metric, requestedOperations] of operations) {
+      const ordered = OPERATIONS.filter((operation) => requestedOperations.has(operation));
+      const samples = listings.map(metricSample[metric]).filter((sample): sample is Sample => sample !== null);
+      const stat: Listings.RollingStat = { ...summarize(samples.map(({ value }) => value), ordered) };
+      for (const { name, keyOf } of groupings) {
+         stat[name] = group(samples, keyOf, ordered);
+      }
+      result[metric] = stat;
+   }
+
+   if (priceSqftRequested) {
+      const samples = listings.map(priceSqft).filter((sample): sample is NonNullable<typeof sample> => sample !== null);
+      if (samples.length) {
+         result.sqft = {
+            avgPriceLow: average(samples.map(({ low }) => low)),
+            avgPriceHigh: average(samples.map(({ high }) => high)),
+         };
+         if (groupings.some(({ name }) => name === "mth")) {
+            const months: Record<string, typeof samples> = {};
+            for (const sample of samples) {
+               if (!sample.date) continue;
+               (months[monthKey(sample.date)] ??= []).push(sample);
+            }
+            result.sqft.mth = Object.fromEntries(
+               Object.keys(months)
+                  .sort()
+                  .map((key) => [
+                     key,
+                     {
+                        avgPriceLow: average(months[key].map(({ low }) => low)),
+                        avgPriceHigh: average(months[key].map(({ high }) => high)),
+                     },
+                  ])
+            );
+         }
+      }
+   }
+
+   return result;
+};
+
+/** same as compute, for listings that have not been normalized yet */
+export const computeForListings = (
+   listings: Listings.Listing[],
+   statistics: StatisticsList | StatisticsParam[],
+   options?: StatisticsOptions
+): StatisticsResponse =>
+   compute(
+      listings.map((listing) => normalizeListing(listing).listing),
+      statistics,
+      options
+   );
@@ -0,0 +1,44 @@
+/** where a local store keeps its state, e.g. a file read and written as JSON */
+export interface Storage<State> {
+   read(): State | undefined | Promise<State | undefined>;
+   write(state: State): void | Promise<void>;
+}
+
+/** a deep copy of plain JSON state */
+export const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/** keeps the state in memory, a copy of `initial` when given */
+export const memoryStorage = <State extends object>(initial?: State): Storage<State> => {
+   let state: State | undefined = initial && copy(initial);
+   return {
+      read: () => state && copy(state),
+      write: (next) => {
+         state = copy(next);
+      },
+   };
+};
+
+/** stores the state as JSON text, `read` returns `undefined` or `""` when nothing was written yet */
+export const textStorage = <State extends object>(
+   read: () => string | undefined | Promise<string | undefined>,
+   write: (text: string) => void | Promise<void>
+): Storage<State> => ({
+   read: async () => {
+      const text = await read();
+      return text ? (JSON.parse(text) as State) : undefined;
+   },
+   write: (state) => write(JSON.stringify(state, null, 2)),
+});
+
+/**
+ * Runs async operations one at a time, in call order, so a read-change-write never interleaves with another:
+ * `const exclusive = createLock(); exclusive(async () => { ... })`. A failed operation does not block the next.
+ */
+export const createLock = () => {
+   let last: Promise<unknown> = Promise.resolve();
+   return <T>(operation: () => Promise<T>): Promise<T> => {
+      const result = last.then(operation);
+      last = result.catch(() => undefined);
+      return result;
+   };
+};
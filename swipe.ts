@@ -0,0 +1,204 @@
+import * as Favorites from "./favorites.js";
+import * as Listings from "./listings.js";
+import * as Searches from "./searches.js";
+
+export type Decision = "like" | "pass" | "superlike";
+
+export interface Swipe {
+   mlsNumber: string;
+   boardId?: number;
+   decision: Decision;
+   /** ISO timestamp */
+   decidedOn: string;
+   /** set once the like was pushed to favorites */
+   favorited?: boolean;
+}
+
+export interface SessionState {
+   version: 1;
+   clientId: number;
+   request: Listings.SearchRequest;
+   /** criteria of the saved search that `request` cannot express, checked on every fetched listing */
+   unrepresentable?: Searches.Unrepresentable[];
+   /** next page to fetch */
+   pageNum: number;
+   exhausted: boolean;
+   /** fetched and not shown yet */
+   buffer: Listings.Listing[];
+   /** card on screen, waiting for a decision */
+   current: Listings.Listing | null;
+   swipes: Swipe[];
+   /** mlsNumbers that must not be shown again, including duplicates of shown listings */
+   seen: string[];
+   createdOn: string;
+   updatedOn: string;
+}
+
+export interface SessionDependencies {
+   /** Api client `listings.search`, Engine `search` or anything with the same shape */
+   search(request: Listings.SearchRequest): Promise<Listings.SearchResponse> | Listings.SearchResponse;
+   /** Api client `favorites.add`, called for every like and superlike */
+   addFavorite?(request: Favorites.AddRequest): Promise<unknown> | unknown;
+   now?: () => Date;
+}
+
+export type SessionSource =
+   | { request: Listings.SearchRequest }
+   | { search: Searches.CreateRequest | Searches.CreateResponse };
+
+export type SessionOptions = SessionSource & {
+   clientId: number;
+   /** swipes of earlier sessions of the same client, their passes are excluded */
+   history?: Swipe[];
+   /** @defaultValue `20` */
+   pageSize?: number;
+};
+
+export interface Session {
+   readonly state: Readonly<SessionState>;
+   /** the card to show, the same card until it is decided; `null` once the results are exhausted */
+   current(): Promise<Listings.Listing | null>;
+   decide(decision: Decision): Promise<Swipe>;
+   like(): Promise<Swipe>;
+   pass(): Promise<Swipe>;
+   superlike(): Promise<Swipe>;
+   /** pushes likes whose favorite could not be added earlier */
+   retryFavorites(): Promise<void>;
+   likes(): Swipe[];
+   serialize(): string;
+}
+
+export class SessionError extends Error {
+   constructor(message: string) {
+      super(message);
+      this.name = "SessionError";
+   }
+}
+
+const keysOf = (listing: Listings.Listing): string[] =>
+   [listing.mlsNumber, ...(listing.duplicates ?? [])].filter((key): key is string => !!key);
+
+const createState = (options: SessionOptions, now: Date): SessionState => {
+   const { result, unrepresentable } = "request" in options
+      ? { result: options.request, unrepresentable: [] }
+      : Searches.toSearchRequest(options.search);
+   if (!Searches.checkUnrepresentable(unrepresentable)) {
+      throw new SessionError(`the saved search cannot be searched: ${unrepresentable.map(({ reason }) => reason).join(", ")}`);
+   }
+   const request = "request" in options ? result : { ...result, status: ["A" as const] };
+   const passed = (options.history ?? []).filter(({ decision }) => decision === "pass").map(({ mlsNumber }) => mlsNumber);
+   return {
+      version: 1,
+      clientId: options.clientId,
+      request: { ...request, resultsPerPage: options.pageSize ?? request.resultsPerPage ?? 20 },
+      ...(unrepresentable.length ? { unrepresentable } : {}),
+      pageNum: request.pageNum ?? 1,
+      exhausted: false,
+      buffer: [],
+      current: null,
+      swipes: [],
+      seen: [...new Set(passed)],
+      createdOn: now.toISOString(),
+      updatedOn: now.toISOString(),
+   };
+};
+
+const open = (dependencies: SessionDependencies, state: SessionState): Session => {
+   const now = () => (dependencies.now ?? (() => new Date()))();
+   const seen = new Set(state.seen);
+   const checked = Searches.checkUnrepresentable(state.unrepresentable ?? []);
+   if (!checked) throw new SessionError("the session has criteria that cannot be checked");
+
+   const markSeen = (listing: Listings.Listing) => {
+      for (const key of keysOf(listing)) {
+         if (!seen.has(key)) {
+            seen.add(key);
+            state.seen.push(key);
+         }
+      }
+   };
+
+   const isNew = (listing: Listings.Listing) => !!listing.mlsNumber && !keysOf(listing).some((key) => seen.has(key));
+
+   const fill = async () => {
+      while (!state.buffer.some(isNew) && !state.exhausted) {
+         const response = await dependencies.search({ ...state.request, pageNum: state.pageNum });
+         state.buffer.push(...response.listings.filter(checked));
+         state.pageNum += 1;
+         state.exhausted = !response.listings.length || state.pageNum > response.numPages;
+      }
+   };
+
+   const current = async () => {
+      if (state.current) return state.current;
+      await fill();
+      let next: Listings.Listing | undefined;
+      while ((next = state.buffer.shift()) && !isNew(next)) {
+         // drop listings that were seen under another mlsNumber
+      }
+      if (!next) return null;
+      state.current = next;
+      markSeen(next);
+      state.updatedOn = now().toISOString();
+      return next;
+   };
+
+   const pushFavorite = async (swipe: Swipe) => {
+      if (!dependencies.addFavorite || swipe.decision === "pass") return;
+      await dependencies.addFavorite({ clientId: state.clientId, mlsNumber: swipe.mlsNumber, boardId: swipe.boardId });
+      swipe.favorited = true;
+   };
+
+   const decide = async (decision: Decision) => {
+      const listing = await current();
+      if (!listing) throw new SessionError("there is no listing left to decide on");
+      const swipe: Swipe = {
+         mlsNumber: listing.mlsNumber!,
+         decision,
+         decidedOn: now().toISOString(),
+      };
+      if (listing.boardId !== undefined) swipe.boardId = listing.boardId;
+      if (decision !== "pass" && dependencies.addFavorite) swipe.favorited = false;
+      state.swipes.push(swipe);
+      state.current = null;
+      state.updatedOn = swipe.decidedOn;
+      // the swipe is kept even when the favorite fails, retryFavorites picks it up
+      await pushFavorite(swipe);
+      return swipe;
+   };
+
+   return {
+      get state() {
+         return state;
+      },
+      current,
+      decide,
+      like: () => decide("like"),
+      pass: () => decide("pass"),
+      superlike: () => decide("superlike"),
+      retryFavorites: async () => {
+         for (const swipe of state.swipes) {
+            if (swipe.favorited === false) await pushFavorite(swipe);
+         }
+      },
+      likes: () => state.swipes.filter(({ decision }) => decision !== "pass"),
+      serialize: () => JSON.stringify(state),
+   };
+};
+
+/**
+ * Like / pass sessions over search results, one card at a time.
+ *
+ * A listing is identified by its mlsNumber. A listing is never shown twice in a session,
+ * neither are its Listing.duplicates, and listings passed in an earlier session
+ * (see SessionOptions.history) are never shown again.
+ * The whole state is plain JSON so a session can be saved on one device and resumed on another.
+ */
+export const createSession = (dependencies: SessionDependencies, options: SessionOptions): Session =>
+   open(dependencies, createState(options, (dependencies.now ?? (() => new Date()))()));
+
+export const restoreSession = (dependencies: SessionDependencies, serialized: string | SessionState): Session => {
+   const state: SessionState = typeof serialized === "string" ? JSON.parse(serialized) : JSON.parse(JSON.stringify(serialized));
+   if (state?.version !== 1) throw new SessionError(`unsupported session version ${state?.version}`);
+   return open(dependencies, state);
+};
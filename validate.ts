@@ -0,0 +1,910 @@
+import {
+   ClassValues,
+   LastStatusValues,
+   OperatorValues,
+   SimilarSortByValues,
+   SortByValues,
+   StatisticsList,
+   StatusValues,
+   TypeValues,
+   YesNoValues,
+   AggregatesValues,
+} from "./index.js";
+import * as Clients from "./clients.js";
+import * as Estimate from "./estimate.js";
+import * as Favorites from "./favorites.js";
+import * as Listings from "./listings.js";
+import * as Messages from "./messages.js";
+import * as Searches from "./searches.js";
+import { isStatistic } from "./stats.js";
+
+/**
+ * strict: the value must match the exported interfaces exactly.
+ * lenient: surprises that are common in real feeds (null instead of a value, a number
+ * instead of a numeric string, an array instead of a record, an enum value we do not know yet,
+ * unknown keys) are reported as warnings instead of errors.
+ */
+export type ValidationMode = "strict" | "lenient";
+
+export interface ValidationIssue {
+   /** e.g. `listings[12].address.streetDirection` */
+   path: string;
+   message: string;
+   value?: unknown;
+}
+
+export interface ValidationResult {
+   valid: boolean;
+   errors: ValidationIssue[];
+   warnings: ValidationIssue[];
+}
+
+export interface ValidateOptions {
+   /** @defaultValue `"strict"` */
+   mode?: ValidationMode;
+   /** prefix for every reported path, e.g. `"listings[12]"` */
+   path?: string;
+}
+
+export interface ValidationContext {
+   mode: ValidationMode;
+   errors: ValidationIssue[];
+   warnings: ValidationIssue[];
+}
+
+/**
+ * A schema walks a value and reports issues into the context.
+ * `T` is only used to type `is` / `assertValid`.
+ */
+export interface Schema<T = unknown> {
+   (value: unknown, path: string, context: ValidationContext): void;
+   readonly optional?: boolean;
+   /** @internal phantom field, never set */
+   readonly __type?: T;
+}
+
+export class ValidationError extends Error {
+   constructor(public readonly issues: ValidationIssue[]) {
+      super(issues.map(formatIssue).join("\n"));
+      this.name = "ValidationError";
+   }
+}
+
+export const formatIssue = (issue: ValidationIssue): string =>
+   `${issue.path || "<root>"}: ${issue.message}`;
+
+export const childPath = (path: string, key: string | number): string => {
+   if (typeof key === "number") return `${path}[${key}]`;
+   if (/^[A-Za-z_$][\w$]*$/.test(key)) return path ? `${path}.${key}` : key;
+   return `${path}[${JSON.stringify(key)}]`;
+};
+
+const describe = (value: unknown): string => {
+   if (value === null) return "null";
+   if (Array.isArray(value)) return "array";
+   return typeof value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+   typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Records an issue. Tolerated issues become warnings in lenient mode, everything else is an error.
+ */
+const report = (
+   context: ValidationContext,
+   path: string,
+   message: string,
+   value: unknown,
+   tolerated = false
+): void => {
+   const target = tolerated && context.mode === "lenient" ? context.warnings : context.errors;
+   target.push({ path, message, value });
+};
+
+const mismatch = (context: ValidationContext, path: string, expected: string, value: unknown, tolerated = false) =>
+   report(context, path, `expected ${expected}, got ${describe(value)}`, value, tolerated || value === null);
+
+const schema = <T>(check: (value: unknown, path: string, context: ValidationContext) => void): Schema<T> =>
+   check as Schema<T>;
+
+export const unknown = (): Schema<unknown> => schema(() => {});
+
+export const string = (): Schema<string> =>
+   schema((value, path, context) => {
+      if (typeof value === "string") return;
+      mismatch(context, path, "string", value, typeof value === "number" || typeof value === "boolean");
+   });
+
+export const number = (): Schema<number> =>
+   schema((value, path, context) => {
+      if (typeof value === "number") {
+         if (!Number.isFinite(value)) report(context, path, "expected a finite number", value);
+         return;
+      }
+      const numeric = typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value));
+      mismatch(context, path, "number", value, numeric);
+   });
+
+export const boolean = (): Schema<boolean> =>
+   schema((value, path, context) => {
+      if (typeof value === "boolean") return;
+      mismatch(context, path, "boolean", value, value === "true" || value === "false");
+   });
+
+const formatValues = (values: readonly string[]) =>
+   values.map((value) => (value === "" ? '""' : value)).join(",");
+
+export const oneOf = <V extends string>(values: readonly V[]): Schema<V> =>
+   schema((value, path, context) => {
+      if (typeof value === "string") {
+         if (!(values as readonly string[]).includes(value)) {
+            report(context, path, `expected one of ${formatValues(values)}`, value, true);
+         }
+         return;
+      }
+      mismatch(context, path, `one of ${formatValues(values)}`, value);
+   });
+
+/** YYYY-MM-DD, see DateFormat */
+export const dateFormat = (): Schema<`${number}-${number}-${number}`> =>
+   schema((value, path, context) => {
+      if (typeof value !== "string") return mismatch(context, path, "date YYYY-MM-DD", value);
+      if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return;
+      const isTimestamp = /^\d{4}-\d{2}-\d{2}[T ]/.test(value) && !Number.isNaN(Date.parse(value));
+      report(context, path, "expected date YYYY-MM-DD", value, isTimestamp);
+   });
+
+export const nullable = <T>(inner: Schema<T>): Schema<T | null> =>
+   schema((value, path, context) => {
+      if (value !== null) inner(value, path, context);
+   });
+
+export const optional = <T>(inner: Schema<T>): Schema<T | undefined> =>
+   Object.assign(
+      schema<T | undefined>((value, path, context) => {
+         if (value !== undefined) inner(value, path, context);
+      }),
+      { optional: true }
+   );
+
+/** optional and nullable, the most common shape of feed fields */
+export const maybe = <T>(inner: Schema<T>): Schema<T | null | undefined> => optional(nullable(inner));
+
+export const array = <T>(item: Schema<T>): Schema<T[]> =>
+   schema((value, path, context) => {
+      if (!Array.isArray(value)) return mismatch(context, path, "array", value);
+      value.forEach((entry, index) => item(entry, childPath(path, index), context));
+   });
+
+/** tuple of fixed length, e.g. a `[lng, lat]` pair */
+export const tuple = <T extends unknown[]>(...items: { [K in keyof T]: Schema<T[K]> }): Schema<T> =>
+   schema((value, path, context) => {
+      if (!Array.isArray(value)) return mismatch(context, path, `tuple of ${items.length}`, value);
+      if (value.length !== items.length) {
+         return report(context, path, `expected tuple of ${items.length}, got ${value.length} items`, value);
+      }
+      items.forEach((item, index) => (item as Schema)(value[index], childPath(path, index), context));
+   });
+
+export const record = <T>(entry: Schema<T>): Schema<Record<string, T>> =>
+   schema((value, path, context) => {
+      if (Array.isArray(value)) {
+         report(context, path, "expected record, got array", value, true);
+         value.forEach((item, index) => entry(item, childPath(path, index), context));
+         return;
+      }
+      if (!isPlainObject(value)) return mismatch(context, path, "record", value);
+      for (const [key, item] of Object.entries(value)) entry(item, childPath(path, key), context);
+   });
+
+export interface ObjectOptions {
+   /** interfaces extending Record<string, unknown> accept unknown keys */
+   open?: boolean;
+}
+
+export const object = <T>(
+   shape: { [K in keyof T]-?: Schema<T[K]> },
+   { open = false }: ObjectOptions = {}
+): Schema<T> =>
+   schema((value, path, context) => {
+      if (!isPlainObject(value)) return mismatch(context, path, "object", value);
+      const fields = shape as Record<string, Schema>;
+      for (const [key, field] of Object.entries(fields)) {
+         const item = value[key];
+         if (item === undefined) {
+            if (!field.optional) report(context, childPath(path, key), "is required", item);
+            continue;
+         }
+         field(item, childPath(path, key), context);
+      }
+      if (open) return;
+      for (const key of Object.keys(value)) {
+         if (!(key in fields)) report(context, childPath(path, key), "unexpected key", value[key], true);
+      }
+   });
+
+/** tagged union, e.g. ImageSearchItem discriminated by `type` */
+export const discriminated = <T>(key: string, variants: Record<string, Schema>): Schema<T> =>
+   schema((value, path, context) => {
+      if (!isPlainObject(value)) return mismatch(context, path, "object", value);
+      const tag = value[key];
+      const variant = typeof tag === "string" ? variants[tag] : undefined;
+      if (!variant) {
+         return report(context, childPath(path, key), `expected one of ${formatValues(Object.keys(variants))}`, tag);
+      }
+      variant(value, path, context);
+   });
+
+/** the value must match one of the alternatives, the issues of the closest one are reported */
+export const anyOf = <T extends unknown[]>(...alternatives: { [K in keyof T]: Schema<T[K]> }): Schema<T[number]> =>
+   schema((value, path, context) => {
+      let closest: ValidationContext | undefined;
+      for (const alternative of alternatives as Schema[]) {
+         const attempt: ValidationContext = { mode: context.mode, errors: [], warnings: [] };
+         alternative(value, path, attempt);
+         if (!attempt.errors.length) {
+            context.warnings.push(...attempt.warnings);
+            return;
+         }
+         if (!closest || attempt.errors.length < closest.errors.length) closest = attempt;
+      }
+      if (closest) {
+         context.errors.push(...closest.errors);
+         context.warnings.push(...closest.warnings);
+      }
+   });
+
+/**
+ * Defers building a schema until first use.
+ * Needed for recursive schemas (Listing.comparables) and for the value lists declared in index.ts,
+ * which are not initialized yet while this module is evaluated.
+ */
+export const lazy = <T>(build: () => Schema<T>): Schema<T> => {
+   let built: Schema<T> | undefined;
+   return schema((value, path, context) => {
+      built ??= build();
+      built(value, path, context);
+   });
+};
+
+export const validate = <T>(target: Schema<T>, value: unknown, options: ValidateOptions = {}): ValidationResult => {
+   const context: ValidationContext = { mode: options.mode ?? "strict", errors: [], warnings: [] };
+   target(value, options.path ?? "", context);
+   return { valid: context.errors.length === 0, errors: context.errors, warnings: context.warnings };
+};
+
+export const is = <T>(target: Schema<T>, value: unknown, options?: ValidateOptions): value is T =>
+   validate(target, value, options).valid;
+
+export const assertValid = <T>(target: Schema<T>, value: unknown, options?: ValidateOptions): T => {
+   const result = validate(target, value, options);
+   if (!result.valid) throw new ValidationError(result.errors);
+   return value as T;
+};
+
+const yesNo = lazy(() => oneOf(YesNoValues));
+const status = lazy(() => oneOf(StatusValues));
+const listingClass = lazy(() => oneOf(ClassValues));
+const type = lazy(() => oneOf(TypeValues));
+const lastStatus = lazy(() => oneOf(LastStatusValues));
+const operator = lazy(() => oneOf(OperatorValues));
+const sortBy = lazy(() => oneOf(SortByValues));
+const similarSortBy = lazy(() => oneOf(SimilarSortByValues));
+const aggregates = lazy(() => oneOf(AggregatesValues));
+const streetDirection = lazy(() => oneOf(Listings.StreetDirectionValues));
+const coverImage = lazy(() => oneOf(Listings.CoverImageValues));
+
+const statisticsList = schema<StatisticsList>((value, path, context) => {
+   if (typeof value !== "string") return mismatch(context, path, "string", value);
+   const invalid = value.split(",").filter((entry) => !isStatistic(entry.trim()));
+   if (invalid.length) report(context, path, `unknown statistics ${invalid.join(",")}`, value, true);
+});
+
+const text = maybe(string());
+const polygons = array(array(tuple<[number, number]>(number(), number())));
+
+export const room: Schema<Listings.Room> = object<Listings.Room>({
+   description: optional(string()),
+   features: text,
+   features2: text,
+   features3: text,
+   length: text,
+   width: text,
+   level: text,
+});
+
+export const bathroom: Schema<Listings.Bathroom> = object<Listings.Bathroom>({
+   pieces: optional(string()),
+   level: optional(string()),
+   count: optional(string()),
+});
+
+export const timestamp: Schema<Listings.Timestamp> = object<Listings.Timestamp>({
+   idxUpdated: text,
+   listingUpdated: text,
+   photosUpdated: text,
+   conditionalExpiryDate: text,
+   terminatedDate: text,
+   suspendedDate: text,
+   listingEntryDate: text,
+   closedDate: text,
+   unavailableDate: text,
+   expiryDate: text,
+   extensionEntryDate: text,
+   possessionDate: text,
+   repliersUpdatedOn: optional(string()),
+});
+
+const yesNoOrString = maybe(string());
+
+export const condominium: Schema<Listings.Condominium> = object<Listings.Condominium>({
+   ammenities: optional(array(string())),
+   buildingInsurance: text,
+   condoCorp: text,
+   condoCorpNum: text,
+   exposure: text,
+   lockerNumber: optional(string()),
+   locker: text,
+   parkingType: text,
+   pets: text,
+   propertyMgr: text,
+   stories: text,
+   fees: optional(
+      object<NonNullable<Listings.Condominium["fees"]>>({
+         cableIncl: yesNoOrString,
+         heatIncl: yesNoOrString,
+         hydroIncl: yesNoOrString,
+         maintenance: text,
+         parkingIncl: yesNoOrString,
+         taxesIncl: yesNoOrString,
+         waterIncl: yesNoOrString,
+      })
+   ),
+   lockerUnitNumber: text,
+   ensuiteLaundry: yesNoOrString,
+   sharesPercentage: text,
+   lockerLevel: text,
+   unitNumber: text,
+});
+
+export const openHouse: Schema<Listings.OpenHouse> = object<Listings.OpenHouse>({
+   date: optional(string()),
+   startTime: optional(string()),
+   endTime: optional(string()),
+   type: text,
+   status: text,
+   TZ: text,
+});
+
+const detailsStringFields = [
+   "airConditioning", "basement1", "basement2", "centralVac", "description", "elevator",
+   "exteriorConstruction1", "exteriorConstruction2", "extras", "furnished", "garage", "heating",
+   "numBathrooms", "numBathroomsPlus", "numBedrooms", "numBedroomsPlus", "numFireplaces",
+   "numGarageSpaces", "numParkingSpaces", "numRooms", "numRoomsPlus", "patio", "propertyType",
+   "sqft", "style", "swimmingPool", "virtualTourUrl", "yearBuilt", "landAccessType", "landSewer",
+   "viewType", "zoningDescription", "analyticsClick", "moreInformationLink", "alternateURLVideoLink",
+   "flooringType", "foundationType", "landscapeFeatures", "fireProtection", "roofMaterial", "farmType",
+   "zoningType", "businessType", "businessSubType", "landDisposition", "storageType",
+   "constructionStyleSplitLevel", "constructionStatus", "loadingType", "ceilingType",
+   "liveStreamEventURL", "energuideRating", "amperage", "sewer", "zoning", "driveway", "leaseTerms",
+   "centralAirConditioning", "certificationLevel", "energyCertification", "parkCostMonthly",
+   "commonElementsIncluded", "greenPropertyInformationStatement", "handicappedEquipped",
+   "laundryLevel", "balcony", "numKitchens", "numKitchensPlus", "sqftRange", "numDrivewaySpaces",
+   "HOAFee", "HOAFee2", "HOAFee3", "waterSource", "livingAreaMeasurement", "waterfront",
+   "numBathroomsHalf",
+] as const;
+
+export const details: Schema<Listings.Details> = object<Listings.Details>(
+   {
+      ...(Object.fromEntries(detailsStringFields.map((key) => [key, text])) as Record<
+         typeof detailsStringFields[number],
+         Schema<string | null | undefined>
+      >),
+      den: maybe(yesNo),
+      familyRoom: maybe(yesNo),
+      bathrooms: optional(record(bathroom)),
+   } as { [K in keyof Listings.Details]-?: Schema<Listings.Details[K]> },
+   { open: true }
+);
+
+export const address: Schema<Listings.Address> = object<Listings.Address>(
+   {
+      area: text,
+      city: text,
+      country: text,
+      district: text,
+      majorIntersection: text,
+      neighborhood: text,
+      streetDirection: maybe(streetDirection),
+      streetName: text,
+      streetNumber: text,
+      streetSuffix: text,
+      unitNumber: text,
+      zip: text,
+      state: text,
+      communityCode: text,
+      streetDirectionPrefix: text,
+   },
+   // addressKey is returned by the API but not part of Address yet
+   { open: true }
+);
+
+export const map: Schema<Listings.Map> = object<Listings.Map>(
+   {
+      latitude: string(),
+      longitude: string(),
+      point: string(),
+   },
+   { open: true }
+);
+
+type Agent = NonNullable<Listings.Listing["agents"]>[number];
+type Brokerage = NonNullable<Agent["brokerage"]>;
+
+export const agent: Schema<Agent> = object<Agent>(
+   {
+      agentId: text,
+      boardAgentId: optional(string()),
+      officeId: optional(string()),
+      updatedOn: text,
+      name: text,
+      board: text,
+      boardOfficeId: text,
+      position: text,
+      email: text,
+      phones: optional(array(string())),
+      social: optional(array(string())),
+      website: text,
+      photo: optional(
+         object<NonNullable<Agent["photo"]>>({
+            small: text,
+            large: text,
+            updatedOn: text,
+         })
+      ),
+      brokerage: optional(
+         object<Brokerage>({
+            name: optional(string()),
+            address: optional(
+               object<NonNullable<Brokerage["address"]>>({
+                  address1: text,
+                  address2: text,
+                  city: text,
+                  state: text,
+                  postal: text,
+                  country: text,
+               })
+            ),
+         })
+      ),
+   } as { [K in keyof Agent]-?: Schema<Agent[K]> },
+   { open: true }
+);
+
+type Lot = NonNullable<Listings.Listing["lot"]>;
+
+export const listing: Schema<Listings.Listing> = object<Listings.Listing>(
+   {
+      mlsNumber: optional(string()),
+      resource: optional(string()),
+      status: optional(status),
+      class: optional(listingClass),
+      type: optional(type),
+      listPrice: optional(string()),
+      listDate: optional(string()),
+      lastStatus: optional(lastStatus),
+      soldPrice: text,
+      soldDate: text,
+      originalPrice: optional(string()),
+      assignment: text,
+      address: optional(address),
+      map: optional(map),
+      permissions: optional(
+         object<NonNullable<Listings.Listing["permissions"]>>({
+            displayAddressOnInternet: optional(yesNo),
+            displayPublic: optional(yesNo),
+            displayInternetEntireListing: optional(yesNo),
+         })
+      ),
+      images: optional(array(string())),
+      photoCount: optional(number()),
+      details: optional(details),
+      daysOnMarket: optional(string()),
+      occupancy: text,
+      updatedOn: text,
+      condominium: optional(condominium),
+      coopCompensation: text,
+      lot: optional(
+         object<Lot>({
+            acres: text,
+            depth: text,
+            irregular: text,
+            legalDescription: text,
+            measurement: text,
+            width: text,
+            size: text,
+            source: text,
+            dimensionsSource: text,
+            dimensions: text,
+            squareFeet: text,
+            features: text,
+            taxLot: text,
+         })
+      ),
+      nearby: optional(object<NonNullable<Listings.Listing["nearby"]>>({ ammenities: optional(array(string())) })),
+      office: optional(object<NonNullable<Listings.Listing["office"]>>({ brokerageName: optional(string()) })),
+      openHouse: optional(record(openHouse)),
+      rooms: optional(record(room)),
+      taxes: optional(
+         object<NonNullable<Listings.Listing["taxes"]>>({
+            annualAmount: text,
+            assessmentYear: text,
+         })
+      ),
+      timestamps: optional(timestamp),
+      agents: optional(array(agent)),
+      duplicates: optional(array(string())),
+      boardId: optional(number()),
+      comparables: optional(array(lazy(() => listing))),
+      history: optional(array(lazy(() => listing))),
+   } as { [K in keyof Listings.Listing]-?: Schema<Listings.Listing[K]> },
+   { open: true }
+);
+
+const imageSearchItem = discriminated<Listings.ImageSearchItem>("type", {
+   text: object<Listings.ImageSearchValue>({ type: oneOf(["text"] as const), boost: number(), value: string() }),
+   image: object<Listings.ImageSearchUrl>({ type: oneOf(["image"] as const), boost: number(), url: string() }),
+});
+
+const strings = optional(array(string()));
+const num = optional(number());
+const date = optional(dateFormat());
+
+export const searchRequest: Schema<Listings.SearchRequest> = object<Listings.SearchRequest>({
+   agent: strings,
+   aggregates: optional(array(aggregates)),
+   aggregateStatistics: optional(boolean()),
+   amenities: strings,
+   area: optional(string()),
+   balcony: strings,
+   basement: strings,
+   boardId: optional(array(number())),
+   brokerage: optional(string()),
+   businessSubType: strings,
+   businessType: strings,
+   city: strings,
+   class: optional(array(listingClass)),
+   cluster: optional(boolean()),
+   clusterFields: optional(string()),
+   clusterLimit: num,
+   clusterPrecision: num,
+   clusterStatistics: optional(boolean()),
+   coverImage: optional(coverImage),
+   den: optional(string()),
+   displayAddressOnInternet: optional(yesNo),
+   displayInternetEntireListing: optional(yesNo),
+   displayPublic: optional(yesNo),
+   district: optional(array(number())),
+   driveway: strings,
+   exteriorConstruction: strings,
+   fields: optional(string()),
+   garage: strings,
+   hasAgents: optional(boolean()),
+   hasImages: optional(boolean()),
+   heating: strings,
+   lastStatus: optional(array(lastStatus)),
+   lat: optional(string()),
+   listDate: date,
+   listings: optional(boolean()),
+   locker: strings,
+   long: optional(string()),
+   map: optional(polygons),
+   mapOperator: optional(operator),
+   maxBaths: num,
+   maxBeds: num,
+   maxBedrooms: num,
+   maxBedsPlus: num,
+   maxBedroomsPlus: num,
+   maxBedroomsTotal: num,
+   maxKitchens: num,
+   maxListDate: date,
+   maxMaintenanceFee: num,
+   maxOpenHouseDate: date,
+   maxPrice: num,
+   maxRepliersUpdatedOn: date,
+   maxSoldDate: date,
+   maxSoldPrice: num,
+   maxStreetNumber: num,
+   maxSqft: num,
+   maxTaxes: num,
+   maxUnavailableDate: date,
+   maxUpdatedOn: date,
+   maxYearBuilt: num,
+   minBaths: num,
+   minBeds: num,
+   minBedrooms: num,
+   minBedsPlus: num,
+   minBedroomsPlus: num,
+   minBedroomsTotal: num,
+   minGarageSpaces: num,
+   minKitchens: num,
+   minListDate: date,
+   minOpenHouseDate: date,
+   minParkingSpaces: num,
+   minPrice: num,
+   minRepliersUpdatedOn: date,
+   minSoldDate: date,
+   minSoldPrice: optional(string()),
+   minSqft: num,
+   minStreetNumber: num,
+   minUnavailableDate: date,
+   minUpdatedOn: date,
+   minYearBuilt: date,
+   mlsNumber: strings,
+   neighborhood: strings,
+   officeId: optional(string()),
+   operator: optional(operator),
+   pageNum: num,
+   propertyType: strings,
+   radius: num,
+   resultsPerPage: num,
+   search: optional(string()),
+   searchFields: optional(string()),
+   sortBy: optional(sortBy),
+   sqft: strings,
+   statistics: optional(statisticsList),
+   status: optional(array(status)),
+   streetDirection: optional(array(streetDirection)),
+   streetName: optional(string()),
+   streetNumber: optional(string()),
+   streetSuffix: optional(string()),
+   style: strings,
+   swimmingPool: strings,
+   type: optional(array(type)),
+   unitNumber: strings,
+   updatedOn: date,
+   waterSource: strings,
+   repliersUpdatedOn: optional(string()),
+   sewer: strings,
+   state: optional(string()),
+   waterfront: optional(yesNo),
+   yearBuilt: strings,
+   zip: optional(string()),
+   zoning: optional(string()),
+   body: optional(
+      object<NonNullable<Listings.SearchRequest["body"]>>({
+         imageSearchItems: optional(array(imageSearchItem)),
+      })
+   ),
+});
+
+export const searchResponse: Schema<Listings.SearchResponse> = object<Listings.SearchResponse>(
+   {
+      page: number(),
+      numPages: number(),
+      pageSize: number(),
+      count: number(),
+      listings: array(listing),
+      statistics: record(unknown()) as Schema<Listings.SearchResponse["statistics"]>,
+   } as { [K in keyof Listings.SearchResponse]-?: Schema<Listings.SearchResponse[K]> },
+   { open: true }
+);
+
+export const listingRequest: Schema<Listings.ListingRequest> = object<Listings.ListingRequest>({
+   mlsNumber: optional(string()),
+   boardId: num,
+   fields: optional(string()),
+});
+
+export const similarRequest: Schema<Listings.SimilarRequest> = object<Listings.SimilarRequest>({
+   boardId: optional(array(number())),
+   listPriceRange: num,
+   radius: num,
+   sortBy: optional(similarSortBy),
+   propertyId: string(),
+   fields: optional(string()),
+});
+
+export const locationsRequest: Schema<Listings.LocationsRequest> = object<Listings.LocationsRequest>({
+   area: optional(string()),
+   city: optional(string()),
+   neighborhood: optional(string()),
+   class: array(listingClass),
+   boardId: num,
+   search: optional(string()),
+});
+
+export const clientCreateRequest: Schema<Clients.CreateRequest> = object<Clients.CreateRequest>({
+   agentId: num,
+   clientId: num,
+   email: optional(string()),
+   fname: optional(string()),
+   lname: optional(string()),
+   phone: optional(string()),
+   status: optional(boolean()),
+   tags: strings,
+   externalId: optional(string()),
+   keywords: optional(string()),
+   conditions: optional(oneOf(["EXACT", "CONTAINS"] as const)),
+   operator: optional(operator),
+   pageNum: num,
+   resultsPerPage: num,
+   showSavedSearches: optional(boolean()),
+});
+
+export const clientFilterRequest: Schema<Clients.FilterRequest> = object<Clients.FilterRequest>({
+   agentId: num,
+   clientId: num,
+   email: optional(string()),
+   fname: optional(string()),
+   keywords: optional(string()),
+   lname: optional(string()),
+   phone: optional(string()),
+   status: optional(boolean()),
+   condition: optional(oneOf(["EXACT", "CONTAINS"] as const)),
+   operator: optional(operator),
+   pageNum: num,
+   resultsPerPage: num,
+   tags: strings,
+   showSavedSearches: optional(boolean()),
+   externalId: optional(string()),
+});
+
+const searchFields: { [K in keyof Searches.SearchFields]-?: Schema<Searches.SearchFields[K]> } = {
+   clientId: number(),
+   name: optional(string()),
+   streetNumbers: strings,
+   streetNames: strings,
+   minBeds: num,
+   maxBeds: num,
+   maxMaintenanceFee: num,
+   minBaths: num,
+   maxBaths: num,
+   areas: strings,
+   cities: strings,
+   neighborhoods: strings,
+   notificationFrequency: optional(oneOf(["instant", "daily", "weekly", "monthly"] as const)),
+   minPrice: number(),
+   maxPrice: number(),
+   propertyTypes: strings,
+   styles: strings,
+   map: optional(string()),
+   status: optional(boolean()),
+   type: type,
+   class: optional(array(listingClass)),
+   minGarageSpaces: num,
+   minKitchens: num,
+   minParkingSpaces: num,
+   basement: strings,
+   soldNotifications: optional(boolean()),
+   priceChangeNotifications: optional(boolean()),
+   sewer: strings,
+   waterSource: strings,
+   heating: strings,
+   swimmingPool: strings,
+   minSqft: num,
+   maxSqft: num,
+   minYearBuilt: num,
+   maxYearBuilt: num,
+   minStories: num,
+   maxStories: num,
+   minCoveredSpaces: num,
+   maxCoveredSpaces: num,
+   amenities: strings,
+   keywords: strings,
+   pets: optional(string()),
+};
+
+export const searchCreateRequest: Schema<Searches.CreateRequest> = object<Searches.CreateRequest>(searchFields);
+
+const { clientId: _clientId, ...updatableSearchFields } = searchFields;
+
+export const searchUpdateRequest: Schema<Searches.UpdateRequest> = object<Searches.UpdateRequest>({
+   searchId: number(),
+   ...(Object.fromEntries(
+      Object.entries(updatableSearchFields).map(([key, field]) => [key, optional(field as Schema)])
+   ) as { [K in keyof typeof updatableSearchFields]: Schema<Searches.UpdateRequest[K]> }),
+});
+
+/** a single value or a list, depending on the board */
+const boardValue = optional(anyOf(string(), array(string())));
+
+export const estimateAddRequest: Schema<Estimate.AddRequest> = object<Estimate.AddRequest>({
+   clientId: num,
+   boardId: num,
+   address: optional(
+      object<NonNullable<Estimate.AddRequest["address"]>>({
+         city: string(),
+         streetName: string(),
+         streetNumber: string(),
+         streetSuffix: string(),
+         unitNumber: optional(string()),
+         zip: string(),
+      })
+   ),
+   condominium: optional(
+      object<Estimate.AddCondominium>({
+         ammenities: strings,
+         exposure: optional(string()),
+         fees: optional(
+            object<NonNullable<Estimate.AddCondominium["fees"]>>({
+               cableIncl: optional(yesNo),
+               heatIncl: optional(yesNo),
+               hydroIncl: optional(yesNo),
+               maintenance: num,
+               parkingIncl: optional(yesNo),
+               taxesIncl: optional(yesNo),
+               waterIncl: optional(yesNo),
+            })
+         ),
+         parkingType: boardValue,
+         pets: boardValue,
+         stories: num,
+      })
+   ),
+   details: optional(
+      object<Estimate.AddDetails>({
+         basement1: boardValue,
+         basement2: optional(string()),
+         driveway: optional(string()),
+         exteriorConstruction1: boardValue,
+         exteriorConstruction2: optional(string()),
+         extras: string(),
+         garage: optional(string()),
+         heating: boardValue,
+         numBathrooms: number(),
+         numBathroomsPlus: num,
+         numBedrooms: number(),
+         numBedroomsPlus: num,
+         numFireplaces: optional(anyOf(yesNo, number())),
+         numGarageSpaces: num,
+         numParkingSpaces: num,
+         propertyType: string(),
+         sqft: number(),
+         style: string(),
+         swimmingPool: boardValue,
+         yearBuilt: optional(string()),
+      })
+   ),
+   lot: optional(
+      object<NonNullable<Estimate.AddRequest["lot"]>>({
+         acres: optional(string()),
+         depth: num,
+         width: num,
+      })
+   ),
+   sendEmailNow: optional(boolean()),
+   sendEmailMonthly: optional(boolean()),
+   taxes: optional(object<NonNullable<Estimate.AddRequest["taxes"]>>({ annualAmount: number() })),
+});
+
+export const favoriteAddRequest: Schema<Favorites.AddRequest> = object<Favorites.AddRequest>({
+   clientId: number(),
+   mlsNumber: string(),
+   boardId: num,
+});
+
+export const messageSendRequest: Schema<Messages.SendRequest> = object<Messages.SendRequest>({
+   sender: oneOf(["agent", "client"] as const),
+   agentId: number(),
+   clientId: number(),
+   content: object<Messages.SendRequest["content"]>({
+      listings: strings,
+      searches: optional(array(number())),
+      message: optional(string()),
+      links: strings,
+      pictures: strings,
+   }),
+});
+
+export const validateListing = (value: unknown, options?: ValidateOptions) => validate(listing, value, options);
+
+export const validateListings = (value: unknown, options?: ValidateOptions) =>
+   validate(array(listing), value, { path: "listings", ...options });
+
+export const validateSearchRequest = (value: unknown, options?: ValidateOptions) =>
+   validate(searchRequest, value, options);
+
+export const validateSearchResponse = (value: unknown, options?: ValidateOptions) =>
+   validate(searchResponse, value, options);
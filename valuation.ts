@@ -0,0 +1,299 @@
+import * as Estimate from "./estimate.js";
+import * as Listings from "./listings.js";
+import { NormalizedListing, SQFT_PER_ACRE, lotArea, midpoint, normalizeListing, parseNumber } from "./normalize.js";
+
+export interface Sample {
+   sqft: number | null;
+   bedrooms: number | null;
+   bathrooms: number | null;
+   /** square feet */
+   lotSize: number | null;
+   yearBuilt: number | null;
+   taxes: number | null;
+   maintenance: number | null;
+   propertyType: string | null;
+   style: string | null;
+   city: string | null;
+}
+
+export interface TrainOptions {
+   /**
+    * `listPrice` trains on asking prices by listDate, for dumps without sales
+    * @defaultValue `"soldPrice"`
+    */
+   target?: "soldPrice" | "listPrice";
+   /** @defaultValue `1` */
+   regularization?: number;
+   /** a category needs this many samples to get its own coefficient @defaultValue `3` */
+   minCategorySize?: number;
+}
+
+/** plain JSON */
+export interface Model {
+   version: 1;
+   target: "soldPrice" | "listPrice";
+   features: string[];
+   means: number[];
+   scales: number[];
+   /** intercept first, then one per feature */
+   coefficients: number[];
+   /** standard deviation of the log-price residuals */
+   sigma: number;
+   /** X'X of the standardized training rows plus the regularization, sizes the interval of each home */
+   gram: number[][];
+   /** first and last month of the training sales, `YYYY-MM` */
+   months: [string, string];
+   samples: number;
+}
+
+export interface EstimateOptions {
+   /** two-sided coverage of estimateLow..estimateHigh @defaultValue `0.9` */
+   coverage?: 0.8 | 0.9 | 0.95;
+   /** months of history, counted back from the last training month @defaultValue `12` */
+   historyMonths?: number;
+}
+
+export class ValuationError extends Error {
+   constructor(message: string) {
+      super(message);
+      this.name = "ValuationError";
+   }
+}
+
+const NUMERIC = ["sqft", "bedrooms", "bathrooms", "lotSize", "age", "taxes", "maintenance", "month"] as const;
+const CATEGORIES = ["propertyType", "style", "city"] as const;
+const Z: Record<NonNullable<EstimateOptions["coverage"]>, number> = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96 };
+
+const monthIndex = (date: Date) => date.getUTCFullYear() * 12 + date.getUTCMonth();
+const monthKey = (index: number) => `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+const parseMonth = (key: string) => {
+   const [year, month] = key.split("-").map(Number);
+   return year * 12 + month - 1;
+};
+const text = (value: string | null | undefined) => value?.trim().toLowerCase() || null;
+
+export const sampleFromListing = (listing: NormalizedListing): Sample => {
+   const { details, lot } = listing;
+   return {
+      sqft: details.sqft ?? midpoint(details.sqftRange),
+      bedrooms: details.numBedrooms,
+      bathrooms: details.numBathrooms,
+      lotSize: lotArea(lot),
+      yearBuilt: details.yearBuilt,
+      taxes: listing.taxes.annualAmount,
+      maintenance: listing.condominium?.fees.maintenance ?? null,
+      propertyType: text(details.propertyType),
+      style: text(details.style),
+      city: text(listing.address.city),
+   };
+};
+
+export const sampleFromRequest = (request: Estimate.AddRequest): Sample => {
+   const acres = parseNumber(request.lot?.acres) ?? null;
+   const { width, depth } = request.lot ?? {};
+   return {
+      sqft: request.details?.sqft ?? null,
+      bedrooms: request.details?.numBedrooms ?? null,
+      bathrooms: request.details?.numBathrooms ?? null,
+      lotSize: acres !== null ? acres * SQFT_PER_ACRE : width && depth ? width * depth : null,
+      yearBuilt: parseNumber(request.details?.yearBuilt) ?? null,
+      taxes: request.taxes?.annualAmount ?? null,
+      maintenance: request.condominium?.fees?.maintenance ?? null,
+      propertyType: text(request.details?.propertyType),
+      style: text(request.details?.style),
+      city: text(request.address?.city),
+   };
+};
+
+/** raw feature values, `null` where unknown; `month` is a month index */
+const row = (model: Pick<Model, "features">, sample: Sample, month: number): Array<number | null> =>
+   model.features.map((feature) => {
+      const [name, level] = feature.split("=");
+      if (level !== undefined) return sample[name as typeof CATEGORIES[number]] === level ? 1 : 0;
+      switch (name as typeof NUMERIC[number]) {
+         case "age":
+            return sample.yearBuilt === null ? null : month / 12 - sample.yearBuilt;
+         case "month":
+            return month;
+         default:
+            return sample[name as Exclude<typeof NUMERIC[number], "age" | "month">];
+      }
+   });
+
+const standardize = (model: Pick<Model, "means" | "scales">, values: Array<number | null>) =>
+   values.map((value, index) => (value === null ? 0 : (value - model.means[index]) / model.scales[index]));
+
+/** solves `matrix * x = vector` by Gaussian elimination with partial pivoting */
+const solve = (matrix: number[][], vector: number[]): number[] => {
+   const size = vector.length;
+   const rows = matrix.map((line, index) => [...line, vector[index]]);
+   for (let column = 0; column < size; column++) {
+      let pivot = column;
+      for (let index = column + 1; index < size; index++) {
+         if (Math.abs(rows[index][column]) > Math.abs(rows[pivot][column])) pivot = index;
+      }
+      [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+      const lead = rows[column][column] || 1e-12;
+      for (let index = column + 1; index < size; index++) {
+         const factor = rows[index][column] / lead;
+         for (let cell = column; cell <= size; cell++) rows[index][cell] -= factor * rows[column][cell];
+      }
+   }
+   const result = new Array<number>(size).fill(0);
+   for (let column = size - 1; column >= 0; column--) {
+      let sum = rows[column][size];
+      for (let cell = column + 1; cell < size; cell++) sum -= rows[column][cell] * result[cell];
+      result[column] = sum / (rows[column][column] || 1e-12);
+   }
+   return result;
+};
+
+/**
+ * Offline automated valuation, for demos and tests that cannot reach the estimate service.
+ *
+ * A ridge regression of the log price on the AddRequest features (size, rooms, lot, age, taxes,
+ * maintenance, property type, style and city) plus the sale month, trained on the sales of a local dump:
+ * listings of type sale, with lastStatus `Sld` when the target is soldPrice.
+ * @throws ValuationError when fewer than two sales have a price and a date
+ */
+export const train = (listings: Listings.Listing[], options: TrainOptions = {}): Model => {
+   const { target = "soldPrice", regularization = 1, minCategorySize = 3 } = options;
+   const data = listings
+      .map((listing) => normalizeListing(listing).listing)
+      // the price of a lease is a monthly rent, and a sold price only counts once the sale closed
+      .filter((listing) => listing.type === "sale" && (target === "listPrice" || listing.lastStatus === "Sld"))
+      .map((listing) => ({
+         sample: sampleFromListing(listing),
+         price: target === "soldPrice" ? listing.soldPrice : listing.listPrice,
+         date: target === "soldPrice" ? listing.soldDate : listing.listDate,
+      }))
+      .filter((item): item is { sample: Sample; price: number; date: Date } => !!item.price && item.price > 0 && !!item.date);
+   if (data.length < 2) throw new ValuationError(`not enough priced listings to train on (${data.length})`);
+
+   const levels = CATEGORIES.flatMap((category) => {
+      const counts = new Map<string, number>();
+      for (const { sample } of data) {
+         const level = sample[category];
+         if (level !== null) counts.set(level, (counts.get(level) ?? 0) + 1);
+      }
+      return [...counts.entries()]
+         .filter(([, count]) => count >= minCategorySize)
+         .map(([level]) => `${category}=${level}`)
+         .sort();
+   });
+   const features = [...NUMERIC, ...levels];
+   const raw = data.map(({ sample, date }) => row({ features }, sample, monthIndex(date)));
+
+   const means = features.map((_, column) => {
+      const known = raw.map((values) => values[column]).filter((value): value is number => value !== null);
+      return known.length ? known.reduce((sum, value) => sum + value, 0) / known.length : 0;
+   });
+   const scales = features.map((_, column) => {
+      const known = raw.map((values) => values[column]).filter((value): value is number => value !== null);
+      const variance = known.reduce((sum, value) => sum + (value - means[column]) ** 2, 0) / (known.length || 1);
+      // a constant feature gets a scale of 1 and standardizes to 0, so it never contributes
+      return Math.sqrt(variance) || 1;
+   });
+
+   const x = raw.map((values) => [1, ...standardize({ means, scales }, values)]);
+   const y = data.map(({ price }) => Math.log(price));
+   const width = features.length + 1;
+   const gram = Array.from({ length: width }, (_, i) =>
+      Array.from({ length: width }, (_, j) =>
+         x.reduce((sum, line) => sum + line[i] * line[j], 0) + (i === j && i > 0 ? regularization : 0)
+      )
+   );
+   const moments = Array.from({ length: width }, (_, i) => x.reduce((sum, line, index) => sum + line[i] * y[index], 0));
+   const coefficients = solve(gram, moments);
+
+   const residuals = x.map((line, index) => y[index] - line.reduce((sum, value, i) => sum + value * coefficients[i], 0));
+   const sigma = Math.sqrt(residuals.reduce((sum, value) => sum + value ** 2, 0) / Math.max(1, data.length - 1));
+   const months = data.map(({ date }) => monthIndex(date));
+
+   return {
+      version: 1,
+      target,
+      features,
+      means,
+      scales,
+      coefficients,
+      sigma,
+      gram,
+      months: [monthKey(Math.min(...months)), monthKey(Math.max(...months))],
+      samples: data.length,
+   };
+};
+
+const predict = (model: Model, sample: Sample, month: number) =>
+   standardize(model, row(model, sample, month)).reduce(
+      (sum, value, index) => sum + value * model.coefficients[index + 1],
+      model.coefficients[0]
+   );
+
+/** standard deviation of the log price of this home: the residuals plus the uncertainty of the fit at its features */
+const deviation = (model: Model, sample: Sample, month: number) => {
+   const x = [1, ...standardize(model, row(model, sample, month))];
+   const leverage = solve(model.gram, x).reduce((sum, value, index) => sum + value * x[index], 0);
+   return model.sigma * Math.sqrt(1 + Math.max(0, leverage));
+};
+
+const value = (
+   model: Model,
+   sample: Sample,
+   { coverage = 0.9, historyMonths = 12 }: EstimateOptions
+): Pick<Estimate.AddResponse, "estimate" | "estimateLow" | "estimateHigh" | "confidence" | "history"> => {
+   const last = parseMonth(model.months[1]);
+   const first = Math.max(parseMonth(model.months[0]), last - Math.max(1, historyMonths) + 1);
+   const center = predict(model, sample, last);
+   const sigma = deviation(model, sample, last);
+   const spread = Z[coverage] * sigma;
+   const estimate = Math.round(Math.exp(center));
+   const low = Math.round(Math.exp(center - spread));
+   const high = Math.round(Math.exp(center + spread));
+   const mth: Record<string, { value: number }> = {};
+   for (let month = first; month <= last; month++) {
+      mth[monthKey(month)] = { value: Math.round(Math.exp(predict(model, sample, month))) };
+   }
+   return {
+      estimate,
+      estimateLow: low,
+      estimateHigh: high,
+      confidence: Math.exp(-2 * sigma),
+      history: { mth },
+   };
+};
+
+/**
+ * Values a home the way POST /estimates does, with `history.mth` filled from the model, the same home priced
+ * at every month of the training window.
+ *
+ * The interval widens with the training residuals and with how far the home's features are from those the
+ * model was trained on. `confidence` is low / high of the one standard deviation interval of this home, whatever
+ * the coverage: close to 1 when it is narrow, lower as it widens.
+ */
+export const estimate = (
+   model: Model,
+   request: Estimate.AddRequest,
+   options: EstimateOptions = {}
+): Estimate.AddResponse => ({
+   ...value(model, sampleFromRequest(request), options),
+   request,
+   payload: request,
+});
+
+/**
+ * Same as estimate, straight from a listing. The model reads the listing itself, so a listing the estimate
+ * service would reject (see Estimate.fromListing) is still valued, `request` is then incomplete.
+ */
+export const estimateListing = (
+   model: Model,
+   listing: Listings.Listing,
+   options: EstimateOptions = {}
+): Estimate.AddResponse => {
+   const { request } = Estimate.fromListing(listing);
+   return {
+      ...value(model, sampleFromListing(normalizeListing(listing).listing), options),
+      request,
+      payload: request,
+   };
+};